@@ -0,0 +1,4 @@
+ALTER TABLE wpp_company_integration
+  ADD COLUMN webhook_secret VARCHAR(255) NULL,
+  ADD COLUMN webhook_secret_previous VARCHAR(255) NULL,
+  ADD COLUMN webhook_secret_previous_expires_at DATETIME NULL;
@@ -0,0 +1,2 @@
+ALTER TABLE wpp_company_integration
+  ADD COLUMN webhook_auth_mode ENUM('SECRET_HEADER','HMAC_SHA256') NOT NULL DEFAULT 'SECRET_HEADER';
@@ -0,0 +1,14 @@
+CREATE TABLE wpp_webhook_envelope (
+  id BIGINT AUTO_INCREMENT PRIMARY KEY,
+  app_id VARCHAR(64) NOT NULL,
+  event_count INT NOT NULL,
+  received_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  payload_json JSON NOT NULL,
+  dedupe_key VARCHAR(191) NOT NULL,
+  UNIQUE KEY uq_wpp_webhook_envelope_dedupe (dedupe_key),
+  KEY idx_wpp_webhook_envelope_app (app_id, received_at)
+);
+
+ALTER TABLE wpp_webhook_event_raw
+  ADD COLUMN envelope_id BIGINT NULL,
+  ADD KEY idx_wpp_webhook_envelope (envelope_id);
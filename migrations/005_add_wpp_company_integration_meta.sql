@@ -0,0 +1,5 @@
+ALTER TABLE wpp_company_integration
+  ADD COLUMN meta_app_id VARCHAR(64) NULL,
+  ADD COLUMN meta_app_secret VARCHAR(255) NULL,
+  ADD COLUMN meta_verify_token VARCHAR(255) NULL,
+  ADD UNIQUE KEY uq_wpp_company_integration_meta_app (meta_app_id);
@@ -0,0 +1,23 @@
+ALTER TABLE wpp_webhook_event_raw
+  MODIFY COLUMN event_kind ENUM('MESSAGE','TEMPLATE','USER','INBOUND','UNKNOWN') NOT NULL DEFAULT 'UNKNOWN';
+
+CREATE TABLE wpp_inbound_message (
+  id BIGINT AUTO_INCREMENT PRIMARY KEY,
+  raw_event_id BIGINT NOT NULL,
+  company_id BIGINT NOT NULL,
+  integration_id BIGINT NOT NULL,
+  provider_message_id VARCHAR(128) NULL,
+  sender_phone VARCHAR(32) NOT NULL,
+  sender_name VARCHAR(255) NULL,
+  message_type VARCHAR(20) NOT NULL,
+  text_body TEXT NULL,
+  media_url VARCHAR(1024) NULL,
+  latitude DECIMAL(10,7) NULL,
+  longitude DECIMAL(10,7) NULL,
+  context_message_id VARCHAR(128) NULL,
+  message_at DATETIME NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_wpp_inbound_message_provider (integration_id, provider_message_id),
+  KEY idx_wpp_inbound_message_company_phone (company_id, sender_phone, message_at),
+  KEY idx_wpp_inbound_message_context (context_message_id)
+);
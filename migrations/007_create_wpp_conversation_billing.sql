@@ -0,0 +1,21 @@
+ALTER TABLE wpp_webhook_event_raw
+  MODIFY COLUMN event_kind ENUM('MESSAGE','TEMPLATE','USER','INBOUND','BILLING','UNKNOWN') NOT NULL DEFAULT 'UNKNOWN';
+
+CREATE TABLE wpp_conversation_billing (
+  id BIGINT AUTO_INCREMENT PRIMARY KEY,
+  integration_id BIGINT NOT NULL,
+  company_id BIGINT NOT NULL,
+  conversation_id VARCHAR(128) NOT NULL,
+  recipient_id BIGINT NULL,
+  message_id VARCHAR(120) NULL,
+  whatsapp_message_id VARCHAR(120) NULL,
+  category VARCHAR(40) NULL,
+  pricing_model VARCHAR(20) NULL,
+  billable TINYINT(1) NOT NULL DEFAULT 0,
+  billed_at DATETIME NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_wpp_conversation_billing_conversation (integration_id, conversation_id),
+  KEY idx_wpp_conversation_billing_recipient (recipient_id),
+  KEY idx_wpp_conversation_billing_company (company_id, billed_at)
+);
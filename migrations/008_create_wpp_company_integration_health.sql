@@ -0,0 +1,17 @@
+ALTER TABLE wpp_webhook_event_raw
+  MODIFY COLUMN event_kind ENUM('MESSAGE','TEMPLATE','USER','INBOUND','BILLING','ACCOUNT','UNKNOWN') NOT NULL DEFAULT 'UNKNOWN';
+
+CREATE TABLE wpp_company_integration_health (
+  integration_id BIGINT NOT NULL PRIMARY KEY,
+  company_id BIGINT NOT NULL,
+  phone_number VARCHAR(32) NULL,
+  quality_rating ENUM('GREEN','YELLOW','RED') NULL,
+  messaging_tier VARCHAR(40) NULL,
+  number_status ENUM('CONNECTED','FLAGGED','RESTRICTED','BANNED','DISABLED') NULL,
+  last_account_event VARCHAR(64) NULL,
+  last_reason VARCHAR(255) NULL,
+  last_event_at DATETIME NOT NULL,
+  deactivated_at DATETIME NULL,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  KEY idx_wpp_company_integration_health_company (company_id)
+);
@@ -0,0 +1,24 @@
+ALTER TABLE wpp_template
+  MODIFY COLUMN status ENUM('DRAFT','SUBMITTED','PENDING','APPROVED','REJECTED','PAUSED','DISABLED') NOT NULL DEFAULT 'DRAFT',
+  ADD COLUMN quality_score ENUM('GREEN','YELLOW','RED','UNKNOWN') NULL,
+  ADD COLUMN quality_updated_at DATETIME NULL,
+  ADD COLUMN category_updated_at DATETIME NULL;
+
+ALTER TABLE wpp_template_version
+  MODIFY COLUMN status ENUM('DRAFT','SUBMITTED','PENDING','APPROVED','REJECTED','PAUSED','DISABLED') NOT NULL DEFAULT 'DRAFT',
+  ADD COLUMN quality_score ENUM('GREEN','YELLOW','RED','UNKNOWN') NULL,
+  ADD COLUMN paused_at DATETIME NULL,
+  ADD COLUMN disabled_at DATETIME NULL;
+
+CREATE TABLE wpp_template_change_history (
+  id BIGINT AUTO_INCREMENT PRIMARY KEY,
+  template_id BIGINT NOT NULL,
+  raw_event_id BIGINT NULL,
+  change_type ENUM('STATUS','CATEGORY','QUALITY') NOT NULL,
+  previous_value VARCHAR(40) NULL,
+  new_value VARCHAR(40) NOT NULL,
+  reason VARCHAR(512) NULL,
+  event_at DATETIME NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  KEY idx_wpp_template_change_history_template (template_id, event_at)
+);
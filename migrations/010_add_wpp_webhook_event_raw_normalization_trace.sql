@@ -0,0 +1,2 @@
+ALTER TABLE wpp_webhook_event_raw
+  ADD COLUMN normalization_trace JSON NULL AFTER payload_json;
@@ -0,0 +1,10 @@
+CREATE TABLE wpp_payload_shape (
+  shape_hash CHAR(64) NOT NULL PRIMARY KEY,
+  shape_paths JSON NOT NULL,
+  path_count INT NOT NULL,
+  first_seen_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE wpp_webhook_event_raw
+  ADD COLUMN payload_shape_hash CHAR(64) NULL AFTER normalization_trace,
+  ADD KEY idx_wpp_webhook_shape (payload_shape_hash, received_at);
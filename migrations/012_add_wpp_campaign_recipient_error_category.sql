@@ -0,0 +1,14 @@
+ALTER TABLE wpp_campaign_recipient
+  ADD COLUMN last_error_category ENUM(
+    'RETRYABLE',
+    'INVALID_NUMBER',
+    'POLICY',
+    'USER_OPTED_OUT',
+    'RATE_LIMIT',
+    'TEMPLATE',
+    'PAYMENT',
+    'AUTH',
+    'INVALID_REQUEST',
+    'UNKNOWN'
+  ) NULL AFTER last_error_reason,
+  ADD KEY idx_wpp_campaign_recipient_error_category (campaign_id, last_error_category);
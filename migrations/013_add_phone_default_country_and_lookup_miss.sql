@@ -0,0 +1,17 @@
+ALTER TABLE wpp_company_integration
+  ADD COLUMN default_country CHAR(2) NULL;
+
+CREATE TABLE wpp_phone_lookup_miss (
+  id BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+  company_id BIGINT NOT NULL,
+  phone_key VARCHAR(32) NOT NULL,
+  raw_phone VARCHAR(64) NOT NULL,
+  canonical_phone VARCHAR(20) NULL,
+  default_country CHAR(2) NULL,
+  reason ENUM('UNPARSEABLE','NOT_FOUND') NOT NULL,
+  occurrences INT NOT NULL DEFAULT 1,
+  first_seen_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uq_wpp_phone_lookup_miss (company_id, phone_key),
+  KEY idx_wpp_phone_lookup_miss_last_seen (company_id, last_seen_at)
+);
@@ -0,0 +1,4 @@
+ALTER TABLE wpp_campaign_recipient
+  ADD COLUMN played_at DATETIME NULL AFTER failed_at,
+  ADD COLUMN deleted_at DATETIME NULL AFTER played_at,
+  ADD COLUMN destination_mismatch_at DATETIME NULL AFTER deleted_at;
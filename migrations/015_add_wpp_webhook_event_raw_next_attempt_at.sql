@@ -0,0 +1,4 @@
+ALTER TABLE wpp_webhook_event_raw
+  ADD COLUMN next_attempt_at DATETIME NULL AFTER attempts,
+  DROP KEY idx_wpp_webhook_processed,
+  ADD KEY idx_wpp_webhook_processed (processed, received_at, next_attempt_at);
@@ -0,0 +1,19 @@
+ALTER TABLE wpp_webhook_event_raw
+  ADD COLUMN attempt_history JSON NULL AFTER next_attempt_at;
+
+CREATE TABLE wpp_webhook_event_dead_letter (
+  id BIGINT AUTO_INCREMENT PRIMARY KEY,
+  raw_id BIGINT NOT NULL,
+  app_id VARCHAR(64) NOT NULL,
+  event_kind ENUM('MESSAGE','TEMPLATE','USER','INBOUND','BILLING','ACCOUNT','UNKNOWN') NOT NULL,
+  attempts INT NOT NULL,
+  last_error TEXT NOT NULL,
+  error_stack TEXT NULL,
+  attempt_history JSON NULL,
+  normalized_summary JSON NULL,
+  status ENUM('PENDING','REQUEUED','DISCARDED') NOT NULL DEFAULT 'PENDING',
+  dead_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  resolved_at DATETIME NULL,
+  UNIQUE KEY uq_wpp_webhook_dead_letter_raw (raw_id),
+  KEY idx_wpp_webhook_dead_letter_status (status, app_id, event_kind, dead_at)
+);
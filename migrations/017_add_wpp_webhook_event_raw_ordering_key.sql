@@ -0,0 +1,4 @@
+ALTER TABLE wpp_webhook_event_raw
+  ADD COLUMN ordering_key VARCHAR(191) NULL AFTER event_status,
+  ADD COLUMN ordering_hash INT UNSIGNED NULL AFTER ordering_key,
+  ADD KEY idx_wpp_webhook_ordering (ordering_key, processed, received_at);
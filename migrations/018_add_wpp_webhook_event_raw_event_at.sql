@@ -0,0 +1,2 @@
+ALTER TABLE wpp_webhook_event_raw
+  ADD COLUMN event_at DATETIME NULL AFTER ordering_hash;
@@ -0,0 +1,4 @@
+ALTER TABLE wpp_webhook_event_raw
+  ADD COLUMN parked_reason VARCHAR(64) NULL AFTER next_attempt_at,
+  ADD COLUMN parked_at DATETIME NULL AFTER parked_reason,
+  ADD COLUMN park_count INT UNSIGNED NOT NULL DEFAULT 0 AFTER parked_at;
@@ -0,0 +1,5 @@
+ALTER TABLE wpp_template
+  ADD COLUMN status_updated_at DATETIME NULL;
+
+ALTER TABLE wpp_template_version
+  ADD COLUMN category VARCHAR(40) NULL;
@@ -0,0 +1,4 @@
+ALTER TABLE wpp_conversation_billing
+  ADD COLUMN message_key VARCHAR(120) NOT NULL DEFAULT '' AFTER conversation_id,
+  DROP KEY uq_wpp_conversation_billing_conversation,
+  ADD UNIQUE KEY uq_wpp_conversation_billing_message (integration_id, conversation_id, message_key);
@@ -0,0 +1,30 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { FastifyRequest } from 'fastify';
+import { AppConfigService } from '../config/app-config.service';
+
+@Injectable()
+export class AdminTokenGuard implements CanActivate {
+  constructor(private readonly appConfigService: AppConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expectedToken = this.appConfigService.adminApiToken;
+    if (!expectedToken) {
+      throw new ForbiddenException('Admin API disabled');
+    }
+
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+    const header = request.headers['x-admin-token'];
+    const providedToken = Array.isArray(header) ? header[0] : header;
+    if (!providedToken) {
+      throw new UnauthorizedException('Invalid admin token');
+    }
+
+    const expected = Buffer.from(expectedToken, 'utf8');
+    const provided = Buffer.from(providedToken, 'utf8');
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      throw new UnauthorizedException('Invalid admin token');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,292 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { MappingRulesDryRunReport, MappingRulesDryRunService } from '../normalizer/mapping-rules-dry-run.service';
+import { MappingRulesService } from '../normalizer/mapping-rules.service';
+import { CompiledMappingRules } from '../normalizer/mapping-rules.util';
+import { ErrorCategory, EventKind } from '../normalizer/normalizer.types';
+import { PhoneLookupMissReportItem, PhoneLookupReportService } from '../normalizer/phone-lookup-report.service';
+import { BillingRepo } from '../repos/billing.repo';
+import { DeadLetterFilter, DeadLetterRow, DeadLetterStatus } from '../repos/dead-letter.repo';
+import { RawRepo } from '../repos/raw.repo';
+import { RecipientRepo } from '../repos/recipient.repo';
+import { PayloadShapeReportItem, PayloadShapeService } from '../webhook/payload-shape.service';
+import {
+  DeadLetterAction,
+  DeadLetterActionResult,
+  DeadLetterDetail,
+  DeadLetterService,
+} from '../worker/dead-letter.service';
+import { AdminTokenGuard } from './admin-token.guard';
+
+const DRY_RUN_DEFAULT_LIMIT = 200;
+const DRY_RUN_MAX_LIMIT = 2000;
+const SHAPE_REPORT_DEFAULT_DAYS = 7;
+const SHAPE_REPORT_DEFAULT_LIMIT = 100;
+const SHAPE_REPORT_MAX_LIMIT = 1000;
+const PHONE_MISSES_DEFAULT_LIMIT = 100;
+const PHONE_MISSES_MAX_LIMIT = 1000;
+const DEAD_LETTER_DEFAULT_LIMIT = 100;
+const DEAD_LETTER_MAX_LIMIT = 5000;
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ['PENDING', 'REQUEUED', 'DISCARDED'];
+const PARKED_REPORT_DEFAULT_HOURS = 24;
+const EVENT_KINDS: EventKind[] = ['MESSAGE', 'TEMPLATE', 'USER', 'INBOUND', 'BILLING', 'ACCOUNT', 'UNKNOWN'];
+
+@Controller('admin')
+@UseGuards(AdminTokenGuard)
+export class AdminController {
+  constructor(
+    private readonly billingRepo: BillingRepo,
+    private readonly recipientRepo: RecipientRepo,
+    private readonly rawRepo: RawRepo,
+    private readonly mappingRulesService: MappingRulesService,
+    private readonly mappingRulesDryRunService: MappingRulesDryRunService,
+    private readonly payloadShapeService: PayloadShapeService,
+    private readonly phoneLookupReportService: PhoneLookupReportService,
+    private readonly deadLetterService: DeadLetterService,
+  ) {}
+
+  @Get('billing/campaigns/:campaignId')
+  async campaignBilling(@Param('campaignId', ParseIntPipe) campaignId: number): Promise<{
+    campaignId: number;
+    categories: Array<{ category: string | null; billableConversations: number }>;
+    totalBillableConversations: number;
+  }> {
+    const rows = await this.billingRepo.sumBillableByCampaign(campaignId);
+    const categories = rows.map((row) => ({
+      category: row.category,
+      billableConversations: Number(row.billable_conversations),
+    }));
+    return {
+      campaignId,
+      categories,
+      totalBillableConversations: categories.reduce((total, item) => total + item.billableConversations, 0),
+    };
+  }
+
+  @Get('failures/campaigns/:campaignId')
+  async campaignFailures(@Param('campaignId', ParseIntPipe) campaignId: number): Promise<{
+    campaignId: number;
+    categories: Array<{ category: ErrorCategory | null; failedRecipients: number }>;
+    totalFailedRecipients: number;
+  }> {
+    const rows = await this.recipientRepo.countFailuresByCategory(campaignId);
+    const categories = rows.map((row) => ({
+      category: row.last_error_category,
+      failedRecipients: Number(row.failed_recipients),
+    }));
+    return {
+      campaignId,
+      categories,
+      totalFailedRecipients: categories.reduce((total, item) => total + item.failedRecipients, 0),
+    };
+  }
+
+  @Get('normalizer/rules')
+  activeRules(): CompiledMappingRules {
+    return this.mappingRulesService.getActive();
+  }
+
+  @Post('normalizer/rules/dry-run')
+  @HttpCode(200)
+  async dryRunRules(@Body() body: unknown): Promise<MappingRulesDryRunReport> {
+    const request = this.parseJsonBody(body);
+    const appId = typeof request.appId === 'string' && request.appId.length > 0 ? request.appId : null;
+    const limit = Math.min(Math.max(Number(request.limit ?? DRY_RUN_DEFAULT_LIMIT) || 1, 1), DRY_RUN_MAX_LIMIT);
+
+    let candidate: CompiledMappingRules;
+    try {
+      candidate = this.mappingRulesService.compile(request.rules);
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : 'Invalid normalizer rules');
+    }
+    return this.mappingRulesDryRunService.run(candidate, appId, limit);
+  }
+
+  @Get('payload-shapes')
+  async payloadShapes(
+    @Query('appId') appId: string | undefined,
+    @Query('eventKind') eventKind: string | undefined,
+    @Query('days') days: string | undefined,
+    @Query('limit') limit: string | undefined,
+  ): Promise<{ since: string; shapes: PayloadShapeReportItem[] }> {
+    const normalizedKind = this.parseEventKind(eventKind);
+    const windowDays = Math.max(Number(days ?? SHAPE_REPORT_DEFAULT_DAYS) || SHAPE_REPORT_DEFAULT_DAYS, 1);
+    const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+    const shapes = await this.payloadShapeService.buildReport({
+      appId: appId && appId.length > 0 ? appId : null,
+      eventKind: normalizedKind,
+      since,
+      limit: Math.min(Math.max(Number(limit ?? SHAPE_REPORT_DEFAULT_LIMIT) || 1, 1), SHAPE_REPORT_MAX_LIMIT),
+    });
+    return { since: since.toISOString(), shapes };
+  }
+
+  @Get('phone-misses')
+  async phoneMisses(
+    @Query('companyId') companyId: string | undefined,
+    @Query('diagnose') diagnose: string | undefined,
+    @Query('limit') limit: string | undefined,
+  ): Promise<{ misses: PhoneLookupMissReportItem[] }> {
+    const normalizedCompanyId = companyId ? Number(companyId) : null;
+    if (normalizedCompanyId !== null && !Number.isInteger(normalizedCompanyId)) {
+      throw new BadRequestException('companyId must be an integer');
+    }
+
+    const misses = await this.phoneLookupReportService.buildReport(
+      normalizedCompanyId,
+      Math.min(Math.max(Number(limit ?? PHONE_MISSES_DEFAULT_LIMIT) || 1, 1), PHONE_MISSES_MAX_LIMIT),
+      diagnose === 'true' || diagnose === '1',
+    );
+    return { misses };
+  }
+
+  @Get('parked-events')
+  async parkedEvents(
+    @Query('appId') appId: string | undefined,
+    @Query('hours') hours: string | undefined,
+  ): Promise<{
+    since: string;
+    reasons: Array<{
+      eventKind: EventKind;
+      reason: string;
+      parked: number;
+      matched: number;
+      expired: number;
+      avgMatchDelaySec: number | null;
+      maxParkCount: number;
+    }>;
+  }> {
+    const windowHours = Math.max(Number(hours ?? PARKED_REPORT_DEFAULT_HOURS) || PARKED_REPORT_DEFAULT_HOURS, 1);
+    const since = new Date(Date.now() - windowHours * 60 * 60 * 1000);
+    const rows = await this.rawRepo.summarizeParked(since, appId && appId.length > 0 ? appId : null);
+    return {
+      since: since.toISOString(),
+      reasons: rows.map((row) => ({
+        eventKind: row.event_kind,
+        reason: row.parked_reason,
+        parked: Number(row.parked),
+        matched: Number(row.matched),
+        expired: Number(row.expired),
+        avgMatchDelaySec: row.avg_match_delay_sec === null ? null : Math.round(Number(row.avg_match_delay_sec)),
+        maxParkCount: Number(row.max_park_count),
+      })),
+    };
+  }
+
+  @Get('dead-letters')
+  async deadLetters(
+    @Query('status') status: string | undefined,
+    @Query('appId') appId: string | undefined,
+    @Query('eventKind') eventKind: string | undefined,
+    @Query('error') error: string | undefined,
+    @Query('limit') limit: string | undefined,
+  ): Promise<{ deadLetters: DeadLetterRow[] }> {
+    const normalizedStatus = (status ?? 'PENDING').toUpperCase() as DeadLetterStatus;
+    if (!DEAD_LETTER_STATUSES.includes(normalizedStatus)) {
+      throw new BadRequestException(`status must be one of ${DEAD_LETTER_STATUSES.join(', ')}`);
+    }
+    const filter: DeadLetterFilter = {
+      status: normalizedStatus,
+      ...this.parseDeadLetterFilter({ appId, eventKind, error, limit }),
+    };
+    return { deadLetters: await this.deadLetterService.list(filter) };
+  }
+
+  @Get('dead-letters/:id')
+  async deadLetter(@Param('id', ParseIntPipe) id: number): Promise<DeadLetterDetail> {
+    const detail = await this.deadLetterService.detail(id);
+    if (!detail) {
+      throw new NotFoundException(`Dead letter ${id} not found`);
+    }
+    return detail;
+  }
+
+  @Post('dead-letters/:id/requeue')
+  @HttpCode(200)
+  async requeueDeadLetter(@Param('id', ParseIntPipe) id: number): Promise<DeadLetterActionResult> {
+    return this.applyToDeadLetter('REQUEUED', id);
+  }
+
+  @Post('dead-letters/:id/discard')
+  @HttpCode(200)
+  async discardDeadLetter(@Param('id', ParseIntPipe) id: number): Promise<DeadLetterActionResult> {
+    return this.applyToDeadLetter('DISCARDED', id);
+  }
+
+  @Post('dead-letters/requeue')
+  @HttpCode(200)
+  async requeueDeadLetters(@Body() body: unknown): Promise<DeadLetterActionResult> {
+    return this.deadLetterService.apply('REQUEUED', { filter: this.parseBulkDeadLetterFilter(body), ids: null });
+  }
+
+  @Post('dead-letters/discard')
+  @HttpCode(200)
+  async discardDeadLetters(@Body() body: unknown): Promise<DeadLetterActionResult> {
+    return this.deadLetterService.apply('DISCARDED', { filter: this.parseBulkDeadLetterFilter(body), ids: null });
+  }
+
+  private async applyToDeadLetter(action: DeadLetterAction, id: number): Promise<DeadLetterActionResult> {
+    const result = await this.deadLetterService.apply(action, {
+      filter: { appId: null, eventKind: null, errorContains: null, limit: 1 },
+      ids: [id],
+    });
+    if (result.matched === 0) {
+      throw new NotFoundException(`Pending dead letter ${id} not found`);
+    }
+    return result;
+  }
+
+  private parseBulkDeadLetterFilter(body: unknown): Omit<DeadLetterFilter, 'status'> {
+    const request = this.parseJsonBody(body);
+    const filter = this.parseDeadLetterFilter(request);
+    if (!filter.appId && !filter.eventKind && !filter.errorContains && request.all !== true) {
+      throw new BadRequestException('Provide appId, eventKind or error, or set "all": true');
+    }
+    return filter;
+  }
+
+  private parseDeadLetterFilter(input: Record<string, unknown>): Omit<DeadLetterFilter, 'status'> {
+    const text = (value: unknown): string | null => (typeof value === 'string' && value.length > 0 ? value : null);
+    return {
+      appId: text(input.appId),
+      eventKind: this.parseEventKind(text(input.eventKind) ?? undefined),
+      errorContains: text(input.error),
+      limit: Math.min(Math.max(Number(input.limit ?? DEAD_LETTER_DEFAULT_LIMIT) || 1, 1), DEAD_LETTER_MAX_LIMIT),
+    };
+  }
+
+  private parseEventKind(eventKind: string | undefined): EventKind | null {
+    const normalizedKind = eventKind ? (eventKind.toUpperCase() as EventKind) : null;
+    if (normalizedKind && !EVENT_KINDS.includes(normalizedKind)) {
+      throw new BadRequestException(`eventKind must be one of ${EVENT_KINDS.join(', ')}`);
+    }
+    return normalizedKind;
+  }
+
+  private parseJsonBody(body: unknown): Record<string, unknown> {
+    let parsed: unknown = body;
+    if (typeof body === 'string') {
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        throw new BadRequestException('Body must be valid JSON');
+      }
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new BadRequestException('Body must be a JSON object');
+    }
+    return parsed as Record<string, unknown>;
+  }
+}
@@ -1,39 +1,90 @@
-import { Module, OnModuleInit } from '@nestjs/common';
+import { DynamicModule, Module, OnModuleInit, Provider, Type } from '@nestjs/common';
+import { AdminController } from './admin/admin.controller';
 import { AppConfigService } from './config/app-config.service';
 import { AppConfigModule } from './config/config.module';
+import { RunMode, runsIngest, runsWorker } from './config/run-mode.util';
 import { MysqlModule } from './db/mysql.module';
+import { HealthController } from './health/health.controller';
+import { HealthService } from './health/health.service';
+import { ShutdownService } from './lifecycle/shutdown.service';
 import { StructuredLoggerService } from './logging/structured-logger.service';
+import { MappingRulesDryRunService } from './normalizer/mapping-rules-dry-run.service';
+import { MappingRulesService } from './normalizer/mapping-rules.service';
 import { NormalizerService } from './normalizer/normalizer.service';
+import { PhoneLookupReportService } from './normalizer/phone-lookup-report.service';
+import { BillingRepo } from './repos/billing.repo';
 import { ConsentRepo } from './repos/consent.repo';
+import { DeadLetterRepo } from './repos/dead-letter.repo';
+import { InboundRepo } from './repos/inbound.repo';
 import { IntegrationRepo } from './repos/integration.repo';
+import { PayloadShapeRepo } from './repos/payload-shape.repo';
 import { RawRepo } from './repos/raw.repo';
 import { RecipientRepo } from './repos/recipient.repo';
 import { TemplateRepo } from './repos/template.repo';
+import { SpoolService } from './spool/spool.service';
+import { PayloadShapeService } from './webhook/payload-shape.service';
 import { WebhookController } from './webhook/webhook.controller';
 import { WebhookService } from './webhook/webhook.service';
+import { DeadLetterService } from './worker/dead-letter.service';
 import { WorkerService } from './worker/worker.service';
 
-@Module({
-  imports: [AppConfigModule, MysqlModule],
-  controllers: [WebhookController],
-  providers: [
-    StructuredLoggerService,
-    NormalizerService,
-    RawRepo,
-    IntegrationRepo,
-    RecipientRepo,
-    TemplateRepo,
-    ConsentRepo,
-    WebhookService,
-    WorkerService,
-  ],
-})
+const CORE_PROVIDERS: Provider[] = [
+  StructuredLoggerService,
+  ShutdownService,
+  MappingRulesService,
+  NormalizerService,
+  MappingRulesDryRunService,
+  RawRepo,
+  IntegrationRepo,
+  RecipientRepo,
+  TemplateRepo,
+  ConsentRepo,
+  InboundRepo,
+  BillingRepo,
+  PayloadShapeRepo,
+  DeadLetterRepo,
+  PayloadShapeService,
+  PhoneLookupReportService,
+  DeadLetterService,
+];
+
+export interface AppModuleOptions {
+  runMode: RunMode;
+  http: boolean;
+}
+
+@Module({})
 export class AppModule implements OnModuleInit {
   constructor(
     private readonly appConfigService: AppConfigService,
     private readonly logger: StructuredLoggerService,
   ) {}
 
+  static register({ runMode, http }: AppModuleOptions): DynamicModule {
+    const controllers: Type[] = [];
+    const providers: Provider[] = [...CORE_PROVIDERS];
+    if (runsIngest(runMode)) {
+      providers.push(WebhookService, SpoolService);
+    }
+    if (runsWorker(runMode)) {
+      providers.push(WorkerService);
+    }
+    if (http) {
+      if (runsIngest(runMode)) {
+        controllers.push(WebhookController);
+      }
+      controllers.push(HealthController, AdminController);
+      providers.push(HealthService);
+    }
+
+    return {
+      module: AppModule,
+      imports: [AppConfigModule, MysqlModule],
+      controllers,
+      providers,
+    };
+  }
+
   onModuleInit(): void {
     this.logger.setLevel(this.appConfigService.logLevel);
   }
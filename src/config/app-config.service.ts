@@ -1,10 +1,42 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { EventKind } from '../normalizer/normalizer.types';
 import { DbConfig, resolveDbConfigFromEnv } from './db-config.util';
 
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitterRatio: number;
+}
+
 export interface WorkerConfig {
   batchSize: number;
   intervalMs: number;
+  idleMaxIntervalMs: number;
+  wakeOnIngest: boolean;
+  drainTimeoutMs: number;
+  concurrency: number;
+  messageHoldMs: number;
+  notFoundGraceMs: number;
+  notFoundRecheckMs: number;
+  retry: RetryPolicy;
+  retryByKind: Partial<Record<EventKind, RetryPolicy>>;
+}
+
+export interface ReadinessConfig {
+  maxBacklog: number;
+  maxOldestUnprocessedSec: number;
+  maxWorkerStaleSec: number;
+  dbTimeoutMs: number;
+}
+
+export interface SpoolConfig {
+  enabled: boolean;
+  dir: string | null;
+  maxBytes: number;
+  maxAgeMs: number;
+  drainIntervalMs: number;
   maxAttempts: number;
 }
 
@@ -12,13 +44,27 @@ export interface WorkerConfig {
 export class AppConfigService {
   readonly port: number;
   readonly db: DbConfig;
-  readonly gupshupWebhookSecret: string;
+  readonly gupshupWebhookSecret: string | null;
+  readonly webhookSignatureToleranceSec: number;
+  readonly webhookHmacRequireTimestamp: boolean;
+  readonly webhookAuthCacheTtlMs: number;
+  readonly metaAppSecret: string | null;
+  readonly metaVerifyToken: string | null;
+  readonly adminApiToken: string | null;
   readonly logLevel: string;
   readonly webhookVerboseLogs: boolean;
   readonly webhookPayloadPreviewChars: number;
   readonly userPhoneColumn: string;
+  readonly userPhoneNormalizedColumn: string | null;
+  readonly userCompanyColumn: string | null;
+  readonly userPhoneScanTimeoutMs: number;
+  readonly phoneDefaultCountry: string | null;
   readonly blockedAsOptOut: boolean;
+  readonly deactivateIntegrationOnBan: boolean;
+  readonly normalizerRulesFile: string | null;
   readonly worker: WorkerConfig;
+  readonly readiness: ReadinessConfig;
+  readonly spool: SpoolConfig;
   readonly nodeEnv: string;
 
   constructor(private readonly configService: ConfigService) {
@@ -33,16 +79,65 @@ export class AppConfigService {
       AWER_MARIADB_URL: this.configService.get<string>('AWER_MARIADB_URL'),
       'awer-mariadb-url': this.configService.get<string>('awer-mariadb-url'),
     });
-    this.gupshupWebhookSecret = this.getString('GUPSHUP_WEBHOOK_SECRET');
+    this.gupshupWebhookSecret = this.getOptionalString('GUPSHUP_WEBHOOK_SECRET');
+    this.webhookSignatureToleranceSec = this.getNumber('WEBHOOK_SIGNATURE_TOLERANCE_SEC');
+    this.webhookHmacRequireTimestamp = this.getBoolean('WEBHOOK_HMAC_REQUIRE_TIMESTAMP');
+    this.webhookAuthCacheTtlMs = this.getNumber('WEBHOOK_AUTH_CACHE_TTL_MS');
+    this.metaAppSecret = this.getOptionalString('META_APP_SECRET');
+    this.metaVerifyToken = this.getOptionalString('META_VERIFY_TOKEN');
+    this.adminApiToken = this.getOptionalString('ADMIN_API_TOKEN');
     this.logLevel = this.getString('LOG_LEVEL');
     this.webhookVerboseLogs = this.getBoolean('WEBHOOK_VERBOSE_LOGS');
     this.webhookPayloadPreviewChars = this.getNumber('WEBHOOK_PAYLOAD_PREVIEW_CHARS');
     this.userPhoneColumn = this.getString('USER_PHONE_COLUMN');
+    this.userPhoneNormalizedColumn = this.getOptionalString('USER_PHONE_NORMALIZED_COLUMN');
+    this.userCompanyColumn = this.getOptionalString('USER_COMPANY_COLUMN');
+    this.userPhoneScanTimeoutMs = this.getNumber('USER_PHONE_SCAN_TIMEOUT_MS');
+    this.phoneDefaultCountry = this.getOptionalString('PHONE_DEFAULT_COUNTRY')?.toUpperCase() ?? null;
     this.blockedAsOptOut = this.getBoolean('BLOCKED_AS_OPT_OUT');
+    this.deactivateIntegrationOnBan = this.getBoolean('DEACTIVATE_INTEGRATION_ON_BAN');
+    this.normalizerRulesFile = this.getOptionalString('NORMALIZER_RULES_FILE');
+    const retry: RetryPolicy = {
+      maxAttempts: this.getNumber('WEBHOOK_WORKER_MAX_ATTEMPTS'),
+      baseDelayMs: this.getNumber('WEBHOOK_WORKER_RETRY_BASE_MS'),
+      maxDelayMs: this.getNumber('WEBHOOK_WORKER_RETRY_MAX_MS'),
+      jitterRatio: this.getNumber('WEBHOOK_WORKER_RETRY_JITTER'),
+    };
+    const retryOverrides = this.configService.get<unknown>('WEBHOOK_WORKER_RETRY_POLICY');
+    const retryByKind: Partial<Record<EventKind, RetryPolicy>> = {};
+    const overrideEntries = retryOverrides && typeof retryOverrides === 'object' ? Object.entries(retryOverrides) : [];
+    for (const [kind, override] of overrideEntries as Array<[EventKind, Partial<RetryPolicy>]>) {
+      retryByKind[kind] = { ...retry, ...override };
+    }
     this.worker = {
       batchSize: this.getNumber('WEBHOOK_WORKER_BATCH_SIZE'),
       intervalMs: this.getNumber('WEBHOOK_WORKER_INTERVAL_MS'),
-      maxAttempts: 10,
+      idleMaxIntervalMs: Math.max(
+        this.getNumber('WEBHOOK_WORKER_IDLE_MAX_INTERVAL_MS'),
+        this.getNumber('WEBHOOK_WORKER_INTERVAL_MS'),
+      ),
+      wakeOnIngest: this.getBoolean('WEBHOOK_WORKER_WAKE_ON_INGEST'),
+      drainTimeoutMs: this.getNumber('WEBHOOK_WORKER_DRAIN_TIMEOUT_MS'),
+      concurrency: this.getNumber('WEBHOOK_WORKER_CONCURRENCY'),
+      messageHoldMs: this.getNumber('WEBHOOK_WORKER_MESSAGE_HOLD_MS'),
+      notFoundGraceMs: this.getNumber('WEBHOOK_WORKER_NOT_FOUND_GRACE_MS'),
+      notFoundRecheckMs: this.getNumber('WEBHOOK_WORKER_NOT_FOUND_RECHECK_MS'),
+      retry,
+      retryByKind,
+    };
+    this.readiness = {
+      maxBacklog: this.getNumber('READY_MAX_BACKLOG'),
+      maxOldestUnprocessedSec: this.getNumber('READY_MAX_OLDEST_UNPROCESSED_SEC'),
+      maxWorkerStaleSec: this.getNumber('READY_MAX_WORKER_STALE_SEC'),
+      dbTimeoutMs: this.getNumber('READY_DB_TIMEOUT_MS'),
+    };
+    this.spool = {
+      enabled: this.getBoolean('WEBHOOK_SPOOL_ENABLED'),
+      dir: this.getOptionalString('WEBHOOK_SPOOL_DIR'),
+      maxBytes: this.getNumber('WEBHOOK_SPOOL_MAX_BYTES'),
+      maxAgeMs: this.getNumber('WEBHOOK_SPOOL_MAX_AGE_MS'),
+      drainIntervalMs: this.getNumber('WEBHOOK_SPOOL_DRAIN_INTERVAL_MS'),
+      maxAttempts: this.getNumber('WEBHOOK_SPOOL_MAX_ATTEMPTS'),
     };
     this.nodeEnv = this.getString('NODE_ENV');
   }
@@ -55,6 +150,14 @@ export class AppConfigService {
     return value;
   }
 
+  private getOptionalString(key: string): string | null {
+    const value = this.configService.get<string>(key);
+    if (typeof value !== 'string' || value.length === 0) {
+      return null;
+    }
+    return value;
+  }
+
   private getNumber(key: string): number {
     const value = this.configService.get<number>(key);
     if (typeof value !== 'number' || Number.isNaN(value)) {
@@ -2,6 +2,19 @@ import { Global, Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import Joi from 'joi';
 import { AppConfigService } from './app-config.service';
+import { RUN_MODES } from './run-mode.util';
+
+const EVENT_KINDS = ['MESSAGE', 'TEMPLATE', 'USER', 'INBOUND', 'BILLING', 'ACCOUNT', 'UNKNOWN'];
+
+const RETRY_POLICY_SCHEMA = Joi.object().pattern(
+  Joi.string().valid(...EVENT_KINDS),
+  Joi.object({
+    maxAttempts: Joi.number().integer().min(1),
+    baseDelayMs: Joi.number().integer().min(0),
+    maxDelayMs: Joi.number().integer().min(0),
+    jitterRatio: Joi.number().min(0).max(1),
+  }),
+);
 
 @Global()
 @Module({
@@ -11,6 +24,10 @@ import { AppConfigService } from './app-config.service';
       expandVariables: true,
       validationSchema: Joi.object({
         PORT: Joi.number().default(8080),
+        RUN_MODE: Joi.string()
+          .lowercase()
+          .valid(...RUN_MODES)
+          .default('both'),
         DB_HOST: Joi.string(),
         DB_PORT: Joi.number().default(3306),
         DB_USER: Joi.string(),
@@ -19,14 +36,62 @@ import { AppConfigService } from './app-config.service';
         DB_URL: Joi.string(),
         AWER_MARIADB_URL: Joi.string(),
         'awer-mariadb-url': Joi.string(),
-        GUPSHUP_WEBHOOK_SECRET: Joi.string().required(),
+        GUPSHUP_WEBHOOK_SECRET: Joi.string().allow(''),
+        WEBHOOK_SIGNATURE_TOLERANCE_SEC: Joi.number().integer().min(1).default(300),
+        WEBHOOK_HMAC_REQUIRE_TIMESTAMP: Joi.boolean().default(true),
+        WEBHOOK_AUTH_CACHE_TTL_MS: Joi.number().integer().min(0).default(30000),
+        META_APP_SECRET: Joi.string().allow(''),
+        META_VERIFY_TOKEN: Joi.string().allow(''),
+        ADMIN_API_TOKEN: Joi.string().allow(''),
         WEBHOOK_WORKER_BATCH_SIZE: Joi.number().integer().min(1).default(50),
         WEBHOOK_WORKER_INTERVAL_MS: Joi.number().integer().min(100).default(1000),
+        WEBHOOK_WORKER_IDLE_MAX_INTERVAL_MS: Joi.number().integer().min(100).default(30000),
+        WEBHOOK_WORKER_WAKE_ON_INGEST: Joi.boolean().default(true),
+        WEBHOOK_WORKER_DRAIN_TIMEOUT_MS: Joi.number().integer().min(0).default(8000),
+        WEBHOOK_WORKER_CONCURRENCY: Joi.number().integer().min(1).max(16).default(1),
+        WEBHOOK_WORKER_MESSAGE_HOLD_MS: Joi.number().integer().min(0).default(10000),
+        WEBHOOK_WORKER_NOT_FOUND_GRACE_MS: Joi.number().integer().min(0).default(1800000),
+        WEBHOOK_WORKER_NOT_FOUND_RECHECK_MS: Joi.number().integer().min(1000).default(60000),
+        WEBHOOK_WORKER_MAX_ATTEMPTS: Joi.number().integer().min(1).default(10),
+        WEBHOOK_WORKER_RETRY_BASE_MS: Joi.number().integer().min(0).default(2000),
+        WEBHOOK_WORKER_RETRY_MAX_MS: Joi.number().integer().min(0).default(600000),
+        WEBHOOK_WORKER_RETRY_JITTER: Joi.number().min(0).max(1).default(0.2),
+        WEBHOOK_WORKER_RETRY_POLICY: Joi.string()
+          .allow('')
+          .custom((value: string, helpers) => {
+            let parsed: unknown;
+            try {
+              parsed = JSON.parse(value);
+            } catch {
+              return helpers.error('any.custom', { message: 'WEBHOOK_WORKER_RETRY_POLICY must be valid JSON' });
+            }
+            const result = RETRY_POLICY_SCHEMA.validate(parsed);
+            if (result.error) {
+              return helpers.error('any.custom', { message: `WEBHOOK_WORKER_RETRY_POLICY: ${result.error.message}` });
+            }
+            return result.value;
+          }, 'retry-policy-json'),
+        NORMALIZER_RULES_FILE: Joi.string().allow(''),
+        READY_MAX_BACKLOG: Joi.number().integer().min(0).default(5000),
+        READY_MAX_OLDEST_UNPROCESSED_SEC: Joi.number().integer().min(0).default(900),
+        READY_MAX_WORKER_STALE_SEC: Joi.number().integer().min(0).default(120),
+        READY_DB_TIMEOUT_MS: Joi.number().integer().min(100).default(2000),
+        WEBHOOK_SPOOL_ENABLED: Joi.boolean().default(true),
+        WEBHOOK_SPOOL_DIR: Joi.string().allow(''),
+        WEBHOOK_SPOOL_MAX_BYTES: Joi.number().integer().min(1024).default(52428800),
+        WEBHOOK_SPOOL_MAX_AGE_MS: Joi.number().integer().min(1000).default(86400000),
+        WEBHOOK_SPOOL_DRAIN_INTERVAL_MS: Joi.number().integer().min(100).default(5000),
+        WEBHOOK_SPOOL_MAX_ATTEMPTS: Joi.number().integer().min(1).default(5),
         WEBHOOK_VERBOSE_LOGS: Joi.boolean().default(true),
         WEBHOOK_PAYLOAD_PREVIEW_CHARS: Joi.number().integer().min(256).max(12000).default(2500),
         LOG_LEVEL: Joi.string().valid('fatal', 'error', 'warn', 'info', 'debug', 'trace').default('info'),
         USER_PHONE_COLUMN: Joi.string().pattern(/^[A-Za-z_][A-Za-z0-9_]*$/).default('phone'),
+        USER_PHONE_NORMALIZED_COLUMN: Joi.string().pattern(/^[A-Za-z_][A-Za-z0-9_]*$/).allow(''),
+        USER_COMPANY_COLUMN: Joi.string().pattern(/^[A-Za-z_][A-Za-z0-9_]*$/).allow(''),
+        USER_PHONE_SCAN_TIMEOUT_MS: Joi.number().integer().min(0).default(2000),
+        PHONE_DEFAULT_COUNTRY: Joi.string().pattern(/^[A-Za-z]{2}$/).allow(''),
         BLOCKED_AS_OPT_OUT: Joi.boolean().default(true),
+        DEACTIVATE_INTEGRATION_ON_BAN: Joi.boolean().default(false),
         NODE_ENV: Joi.string().default('production'),
       }).custom((value, helpers) => {
         const hasUrl = Boolean(value.DB_URL || value.AWER_MARIADB_URL || value['awer-mariadb-url']);
@@ -0,0 +1,19 @@
+export const RUN_MODES = ['both', 'ingest', 'worker'] as const;
+
+export type RunMode = (typeof RUN_MODES)[number];
+
+export function resolveRunMode(value: string | undefined): RunMode {
+  const normalized = (value ?? '').trim().toLowerCase() || 'both';
+  if (!(RUN_MODES as readonly string[]).includes(normalized)) {
+    throw new Error(`RUN_MODE must be one of ${RUN_MODES.join(', ')}`);
+  }
+  return normalized as RunMode;
+}
+
+export function runsIngest(mode: RunMode): boolean {
+  return mode !== 'worker';
+}
+
+export function runsWorker(mode: RunMode): boolean {
+  return mode !== 'ingest';
+}
@@ -1,9 +1,9 @@
-import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { Injectable, OnApplicationShutdown } from '@nestjs/common';
 import { createPool, Pool, PoolConnection } from 'mysql2/promise';
 import { AppConfigService } from '../config/app-config.service';
 
 @Injectable()
-export class MysqlService implements OnModuleDestroy {
+export class MysqlService implements OnApplicationShutdown {
   private readonly pool: Pool;
 
   constructor(private readonly appConfigService: AppConfigService) {
@@ -29,7 +29,11 @@ export class MysqlService implements OnModuleDestroy {
     return this.pool.getConnection();
   }
 
-  async onModuleDestroy(): Promise<void> {
+  async ping(timeoutMs: number): Promise<void> {
+    await this.pool.query({ sql: 'SELECT 1', timeout: timeoutMs });
+  }
+
+  async onApplicationShutdown(): Promise<void> {
     await this.pool.end();
   }
 }
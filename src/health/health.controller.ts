@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  Inject,
+  NotFoundException,
+  Optional,
+  ServiceUnavailableException,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminTokenGuard } from '../admin/admin-token.guard';
+import { SpoolService, SpoolStats } from '../spool/spool.service';
+import { HealthFailure, HealthReport, HealthService } from './health.service';
+
+@Controller()
+export class HealthController {
+  constructor(
+    private readonly healthService: HealthService,
+    @Optional() @Inject(SpoolService) private readonly spoolService: SpoolService | null,
+  ) {}
+
+  @Get('health')
+  @HttpCode(200)
+  health(): string {
+    return 'ok';
+  }
+
+  @Get('ready')
+  @HttpCode(200)
+  async ready(): Promise<{ status: 'ok'; failures: HealthFailure[] }> {
+    const report = await this.healthService.check();
+    if (!report.ready) {
+      throw new ServiceUnavailableException({ status: 'fail', failures: report.readinessFailures });
+    }
+    return { status: 'ok', failures: report.readinessFailures };
+  }
+
+  @Get('health/worker')
+  @HttpCode(200)
+  async workerHealth(): Promise<{ status: 'ok'; failures: HealthFailure[] }> {
+    const report = await this.healthService.check();
+    if (!report.worker) {
+      throw new NotFoundException('Worker is not running in this run mode');
+    }
+    if (report.workerFailures.length > 0) {
+      throw new ServiceUnavailableException({ status: 'fail', failures: report.workerFailures });
+    }
+    return { status: 'ok', failures: report.workerFailures };
+  }
+
+  @Get('health/details')
+  @HttpCode(200)
+  @UseGuards(AdminTokenGuard)
+  async details(): Promise<HealthReport> {
+    const report = await this.healthService.check();
+    if (report.status !== 'ok') {
+      throw new ServiceUnavailableException(report);
+    }
+    return report;
+  }
+
+  @Get('health/spool')
+  @HttpCode(200)
+  @UseGuards(AdminTokenGuard)
+  spoolHealth(): SpoolStats {
+    if (!this.spoolService) {
+      throw new NotFoundException('Spool is not running in this run mode');
+    }
+    return this.spoolService.getStats();
+  }
+}
@@ -0,0 +1,190 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { AppConfigService } from '../config/app-config.service';
+import { MysqlService } from '../db/mysql.service';
+import { StructuredLoggerService } from '../logging/structured-logger.service';
+import { ShutdownService } from '../lifecycle/shutdown.service';
+import { RawRepo } from '../repos/raw.repo';
+import { SpoolService, SpoolStats } from '../spool/spool.service';
+import { WorkerService, WorkerTickStatus } from '../worker/worker.service';
+
+export type HealthFailure =
+  | 'draining'
+  | 'db_unreachable'
+  | 'spool_full'
+  | 'backlog_exceeded'
+  | 'oldest_unprocessed_exceeded'
+  | 'worker_stale';
+
+export interface HealthReport {
+  status: 'ok' | 'fail';
+  ready: boolean;
+  checkedAt: string;
+  failures: HealthFailure[];
+  readinessFailures: HealthFailure[];
+  workerFailures: HealthFailure[];
+  db: {
+    ok: boolean;
+    latencyMs: number;
+    error: string | null;
+  };
+  backlog: {
+    unprocessed: number;
+    parked: number;
+    oldestReceivedAt: string | null;
+    oldestAgeSec: number | null;
+  } | null;
+  worker: (WorkerTickStatus & { staleSec: number }) | null;
+  spool: SpoolStats | null;
+  thresholds: {
+    maxBacklog: number;
+    maxOldestUnprocessedSec: number;
+    maxWorkerStaleSec: number;
+  };
+}
+
+@Injectable()
+export class HealthService {
+  private lastReady: boolean | null = null;
+
+  constructor(
+    private readonly appConfigService: AppConfigService,
+    private readonly mysqlService: MysqlService,
+    private readonly rawRepo: RawRepo,
+    @Optional() @Inject(WorkerService) private readonly workerService: WorkerService | null,
+    @Optional() @Inject(SpoolService) private readonly spoolService: SpoolService | null,
+    private readonly shutdownService: ShutdownService,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async check(): Promise<HealthReport> {
+    const { maxBacklog, maxOldestUnprocessedSec, maxWorkerStaleSec, dbTimeoutMs } = this.appConfigService.readiness;
+    const failures: HealthFailure[] = [];
+    if (this.shutdownService.isDraining()) {
+      failures.push('draining');
+    }
+
+    const db = await this.pingDatabase(dbTimeoutMs);
+    if (!db.ok) {
+      failures.push('db_unreachable');
+    }
+
+    let backlog: HealthReport['backlog'] = null;
+    if (db.ok) {
+      try {
+        const stats = await this.withTimeout(this.rawRepo.getBacklogStats(), dbTimeoutMs);
+        backlog = {
+          unprocessed: Number(stats.unprocessed),
+          parked: Number(stats.parked),
+          oldestReceivedAt: stats.oldest_received_at ? new Date(stats.oldest_received_at).toISOString() : null,
+          oldestAgeSec: stats.oldest_age_sec === null ? null : Number(stats.oldest_age_sec),
+        };
+      } catch (error) {
+        db.ok = false;
+        db.error = error instanceof Error ? error.message : 'unknown_error';
+        failures.push('db_unreachable');
+      }
+    }
+
+    let worker: HealthReport['worker'] = null;
+    if (this.workerService) {
+      if (backlog && maxBacklog > 0 && backlog.unprocessed > maxBacklog) {
+        failures.push('backlog_exceeded');
+      }
+      if (
+        backlog?.oldestAgeSec != null &&
+        maxOldestUnprocessedSec > 0 &&
+        backlog.oldestAgeSec > maxOldestUnprocessedSec
+      ) {
+        failures.push('oldest_unprocessed_exceeded');
+      }
+
+      const tickStatus = this.workerService.getTickStatus();
+      const lastHealthyAt = new Date(tickStatus.lastSuccessfulTickAt ?? tickStatus.startedAt);
+      const staleSec = Math.max(0, Math.floor((Date.now() - lastHealthyAt.getTime()) / 1000));
+      if (maxWorkerStaleSec > 0 && staleSec > maxWorkerStaleSec) {
+        failures.push('worker_stale');
+      }
+      worker = { ...tickStatus, staleSec };
+    }
+
+    const spool = this.spoolService?.getStats() ?? null;
+    const spoolHasRoom = Boolean(spool?.enabled && spool.bytes < spool.maxBytes);
+    if (spool?.enabled && !spoolHasRoom) {
+      failures.push('spool_full');
+    }
+    const readinessFailures = failures.filter(
+      (failure) =>
+        failure === 'draining' ||
+        (failure === 'db_unreachable' && !spoolHasRoom) ||
+        (failure === 'spool_full' && !db.ok),
+    );
+
+    const workerFailures = worker
+      ? failures.filter(
+          (failure) =>
+            failure === 'db_unreachable' ||
+            failure === 'backlog_exceeded' ||
+            failure === 'oldest_unprocessed_exceeded' ||
+            failure === 'worker_stale',
+        )
+      : [];
+
+    const report: HealthReport = {
+      status: failures.length === 0 ? 'ok' : 'fail',
+      ready: readinessFailures.length === 0,
+      checkedAt: new Date().toISOString(),
+      failures,
+      readinessFailures,
+      workerFailures,
+      db,
+      backlog,
+      worker,
+      spool,
+      thresholds: { maxBacklog, maxOldestUnprocessedSec, maxWorkerStaleSec },
+    };
+
+    if (report.ready !== this.lastReady) {
+      const fields = {
+        ready: report.ready,
+        readinessFailures,
+        failures,
+        dbError: db.error,
+        backlog,
+        workerStaleSec: worker?.staleSec ?? null,
+      };
+      if (report.ready) {
+        this.logger.info('readiness_changed', fields);
+      } else {
+        this.logger.warn('readiness_changed', fields);
+      }
+      this.lastReady = report.ready;
+    }
+
+    return report;
+  }
+
+  private async pingDatabase(timeoutMs: number): Promise<HealthReport['db']> {
+    const startedAt = Date.now();
+    try {
+      await this.withTimeout(this.mysqlService.ping(timeoutMs), timeoutMs);
+      return { ok: true, latencyMs: Date.now() - startedAt, error: null };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown_error';
+      return { ok: false, latencyMs: Date.now() - startedAt, error: reason };
+    }
+  }
+
+  private async withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    let timer: NodeJS.Timeout | null = null;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { StructuredLoggerService } from '../logging/structured-logger.service';
+
+@Injectable()
+export class ShutdownService implements OnModuleDestroy {
+  private drainingSince: Date | null = null;
+
+  constructor(private readonly logger: StructuredLoggerService) {}
+
+  onModuleDestroy(): void {
+    if (this.drainingSince) {
+      return;
+    }
+    this.drainingSince = new Date();
+    this.logger.info('shutdown_draining_started', { drainingSince: this.drainingSince.toISOString() });
+  }
+
+  isDraining(): boolean {
+    return this.drainingSince !== null;
+  }
+}
@@ -2,11 +2,13 @@ import { NestFactory } from '@nestjs/core';
 import { FastifyAdapter, NestFastifyApplication } from '@nestjs/platform-fastify';
 import { AppModule } from './app.module';
 import { AppConfigService } from './config/app-config.service';
+import { resolveRunMode } from './config/run-mode.util';
 import { StructuredLoggerService } from './logging/structured-logger.service';
 
 async function bootstrap(): Promise<void> {
+  const runMode = resolveRunMode(process.env.RUN_MODE);
   const app = await NestFactory.create<NestFastifyApplication>(
-    AppModule,
+    AppModule.register({ runMode, http: true }),
     new FastifyAdapter({ logger: false }),
     { rawBody: true, bodyParser: false, logger: false },
   );
@@ -32,7 +34,7 @@ async function bootstrap(): Promise<void> {
   const logger = app.get(StructuredLoggerService);
 
   await app.listen(config.port, '0.0.0.0');
-  logger.info('http_server_started', { port: config.port, nodeEnv: config.nodeEnv });
+  logger.info('http_server_started', { port: config.port, nodeEnv: config.nodeEnv, runMode });
 }
 
 void bootstrap();
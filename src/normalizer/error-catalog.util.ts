@@ -0,0 +1,91 @@
+import { ErrorCategory } from './normalizer.types';
+
+interface ErrorCatalogEntry {
+  category: ErrorCategory;
+  description: string;
+}
+
+export const ERROR_CATALOG: Record<string, ErrorCatalogEntry> = {
+  // Meta Cloud API
+  '0': { category: 'AUTH', description: 'AuthException' },
+  '1': { category: 'RETRYABLE', description: 'API unknown error' },
+  '2': { category: 'RETRYABLE', description: 'API service temporarily unavailable' },
+  '3': { category: 'AUTH', description: 'API method capability missing' },
+  '4': { category: 'RATE_LIMIT', description: 'API too many calls' },
+  '10': { category: 'AUTH', description: 'Permission denied' },
+  '190': { category: 'AUTH', description: 'Access token expired' },
+  '368': { category: 'POLICY', description: 'Temporarily blocked for policy violations' },
+  '80007': { category: 'RATE_LIMIT', description: 'WhatsApp Business Account rate limit' },
+  '130429': { category: 'RATE_LIMIT', description: 'Cloud API throughput reached' },
+  '130472': { category: 'POLICY', description: "User's number is part of an experiment" },
+  '131000': { category: 'RETRYABLE', description: 'Something went wrong' },
+  '131005': { category: 'AUTH', description: 'Access denied' },
+  '131008': { category: 'INVALID_REQUEST', description: 'Required parameter is missing' },
+  '131009': { category: 'INVALID_REQUEST', description: 'Parameter value is not valid' },
+  '131016': { category: 'RETRYABLE', description: 'Service unavailable' },
+  '131021': { category: 'INVALID_NUMBER', description: 'Recipient cannot be sender' },
+  '131026': { category: 'INVALID_NUMBER', description: 'Message undeliverable' },
+  '131031': { category: 'POLICY', description: 'Business account locked' },
+  '131042': { category: 'PAYMENT', description: 'Business eligibility payment issue' },
+  '131045': { category: 'AUTH', description: 'Phone number not registered (certificate)' },
+  '131047': { category: 'POLICY', description: 'Re-engagement message outside 24h window' },
+  '131048': { category: 'RATE_LIMIT', description: 'Spam rate limit hit' },
+  '131049': { category: 'POLICY', description: 'Not delivered to maintain healthy ecosystem engagement' },
+  '131050': { category: 'USER_OPTED_OUT', description: 'User stopped marketing messages' },
+  '131051': { category: 'INVALID_REQUEST', description: 'Unsupported message type' },
+  '131052': { category: 'INVALID_REQUEST', description: 'Media download error' },
+  '131053': { category: 'INVALID_REQUEST', description: 'Media upload error' },
+  '131056': { category: 'RATE_LIMIT', description: 'Business/consumer pair rate limit hit' },
+  '131057': { category: 'RETRYABLE', description: 'Account in maintenance mode' },
+  '132000': { category: 'TEMPLATE', description: 'Template param count mismatch' },
+  '132001': { category: 'TEMPLATE', description: 'Template does not exist' },
+  '132005': { category: 'TEMPLATE', description: 'Template hydrated text too long' },
+  '132007': { category: 'TEMPLATE', description: 'Template format character policy violated' },
+  '132012': { category: 'TEMPLATE', description: 'Template parameter format mismatch' },
+  '132015': { category: 'TEMPLATE', description: 'Template is paused' },
+  '132016': { category: 'TEMPLATE', description: 'Template is disabled' },
+  '133010': { category: 'AUTH', description: 'Phone number not registered' },
+  // Legacy on-premises API codes still relayed by Gupshup
+  '470': { category: 'POLICY', description: 'More than 24 hours since the customer last replied' },
+  '471': { category: 'RATE_LIMIT', description: 'Spam rate limit hit' },
+  // Gupshup
+  '1002': { category: 'INVALID_NUMBER', description: 'Number does not exist on WhatsApp' },
+  '1003': { category: 'PAYMENT', description: 'Insufficient wallet balance' },
+  '1004': { category: 'POLICY', description: 'User inactive for session message and template messaging disabled' },
+  '1005': { category: 'POLICY', description: 'User inactive for session message' },
+  '1006': { category: 'TEMPLATE', description: 'User inactive for session message and template did not match' },
+  '1007': { category: 'USER_OPTED_OUT', description: 'User inactive for session message and not opted in' },
+  '1008': { category: 'USER_OPTED_OUT', description: 'User not opted in and inactive' },
+  '1010': { category: 'INVALID_REQUEST', description: 'Invalid media url' },
+  '1011': { category: 'INVALID_REQUEST', description: 'Invalid media size' },
+};
+
+const REASON_PATTERNS: Array<[RegExp, ErrorCategory]> = [
+  [/(does not exist|not.*on whatsapp|invalid.*(number|phone)|undeliverable|not a valid whatsapp)/i, 'INVALID_NUMBER'],
+  [/(stopped marketing|opt(ed)?[\s_-]?out|unsubscribed|not opted in)/i, 'USER_OPTED_OUT'],
+  [/(rate limit|too many|throughput|spam)/i, 'RATE_LIMIT'],
+  [/(24 hours|re-?engagement|session window|ecosystem|policy)/i, 'POLICY'],
+  [/template/i, 'TEMPLATE'],
+  [/(balance|wallet|payment)/i, 'PAYMENT'],
+  [/(timeout|timed out|temporar|try again|unavailable|internal error)/i, 'RETRYABLE'],
+];
+
+export function classifyError(code: string | null, reason: string | null): ErrorCategory | null {
+  if (!code && !reason) {
+    return null;
+  }
+
+  const entry = code ? ERROR_CATALOG[code.trim()] : undefined;
+  if (entry) {
+    return entry.category;
+  }
+
+  if (reason) {
+    for (const [pattern, category] of REASON_PATTERNS) {
+      if (pattern.test(reason)) {
+        return category;
+      }
+    }
+  }
+  return 'UNKNOWN';
+}
@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { RawRepo } from '../repos/raw.repo';
+import { MappingRulesService } from './mapping-rules.service';
+import { CompiledMappingRules, resolveFieldRules } from './mapping-rules.util';
+import { NormalizerService } from './normalizer.service';
+import { EventKind } from './normalizer.types';
+
+export interface MappingRulesDryRunChange {
+  rawId: number;
+  appId: string;
+  kindBefore: EventKind;
+  kindAfter: EventKind;
+  changedFields: string[];
+}
+
+export interface MappingRulesDryRunReport {
+  activeVersion: string;
+  candidateVersion: string;
+  sampled: number;
+  changed: number;
+  kindChanges: Record<string, number>;
+  fieldChanges: Record<string, number>;
+  samples: MappingRulesDryRunChange[];
+}
+
+const MAX_SAMPLES = 20;
+
+@Injectable()
+export class MappingRulesDryRunService {
+  constructor(
+    private readonly mappingRulesService: MappingRulesService,
+    private readonly normalizerService: NormalizerService,
+    private readonly rawRepo: RawRepo,
+  ) {}
+
+  async run(candidate: CompiledMappingRules, appId: string | null, limit: number): Promise<MappingRulesDryRunReport> {
+    const active = this.mappingRulesService.getActive();
+    const rows = await this.rawRepo.findRecentPayloads(appId, limit);
+
+    const report: MappingRulesDryRunReport = {
+      activeVersion: active.version,
+      candidateVersion: candidate.version,
+      sampled: rows.length,
+      changed: 0,
+      kindChanges: {},
+      fieldChanges: {},
+      samples: [],
+    };
+
+    for (const row of rows) {
+      const payload = this.rawRepo.parsePayloadJson(row.payload_json);
+      const before = this.normalizerService.normalizeWithRules(payload, resolveFieldRules(active, row.app_id));
+      const after = this.normalizerService.normalizeWithRules(payload, resolveFieldRules(candidate, row.app_id));
+      const changedFields = this.diffFields(before, after);
+      if (changedFields.length === 0) {
+        continue;
+      }
+
+      report.changed += 1;
+      if (before.kind !== after.kind) {
+        const transition = `${before.kind}->${after.kind}`;
+        report.kindChanges[transition] = (report.kindChanges[transition] ?? 0) + 1;
+      }
+      for (const field of changedFields) {
+        report.fieldChanges[field] = (report.fieldChanges[field] ?? 0) + 1;
+      }
+      if (report.samples.length < MAX_SAMPLES) {
+        report.samples.push({
+          rawId: row.id,
+          appId: row.app_id,
+          kindBefore: before.kind,
+          kindAfter: after.kind,
+          changedFields,
+        });
+      }
+    }
+
+    return report;
+  }
+
+  private diffFields(before: object, after: object): string[] {
+    const left = before as Record<string, unknown>;
+    const right = after as Record<string, unknown>;
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return [...keys].filter((key) => JSON.stringify(left[key]) !== JSON.stringify(right[key])).sort();
+  }
+}
@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { AppConfigService } from '../config/app-config.service';
+import { StructuredLoggerService } from '../logging/structured-logger.service';
+import {
+  builtinMappingRules,
+  CompiledMappingRules,
+  compileMappingRules,
+  FieldRules,
+  resolveFieldRules,
+} from './mapping-rules.util';
+
+@Injectable()
+export class MappingRulesService {
+  private readonly active: CompiledMappingRules;
+
+  constructor(
+    private readonly appConfigService: AppConfigService,
+    private readonly logger: StructuredLoggerService,
+  ) {
+    this.active = this.load(this.appConfigService.normalizerRulesFile);
+  }
+
+  getActive(): CompiledMappingRules {
+    return this.active;
+  }
+
+  forApp(appId: string | null): FieldRules {
+    return resolveFieldRules(this.active, appId);
+  }
+
+  compile(document: unknown): CompiledMappingRules {
+    return compileMappingRules(document);
+  }
+
+  private load(file: string | null): CompiledMappingRules {
+    if (!file) {
+      return builtinMappingRules();
+    }
+
+    let document: unknown;
+    try {
+      document = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown_error';
+      throw new Error(`Unable to read normalizer rules from ${file}: ${reason}`);
+    }
+
+    const compiled = compileMappingRules(document);
+    this.logger.info('normalizer_rules_loaded', {
+      file,
+      version: compiled.version,
+      appOverrides: Object.keys(compiled.apps),
+    });
+    return compiled;
+  }
+}
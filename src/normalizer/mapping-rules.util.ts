@@ -0,0 +1,271 @@
+import Joi from 'joi';
+
+export const MAPPING_FIELDS = [
+  'providerEventId',
+  'message.messageId',
+  'message.whatsappMessageId',
+  'message.status',
+  'message.templateName',
+  'message.error',
+  'message.errorCode',
+  'message.errorReason',
+  'message.eventAt',
+  'template.status',
+  'template.name',
+  'template.providerId',
+  'template.newCategory',
+  'template.qualityScore',
+  'template.eventType',
+  'template.language',
+  'template.rejectionReason',
+  'template.correctCategory',
+  'template.previousCategory',
+  'template.eventAt',
+  'user.consentEvent',
+  'user.phone',
+  'user.eventAt',
+  'unknown.eventAt',
+] as const;
+
+export type MappingField = (typeof MAPPING_FIELDS)[number];
+
+export interface FieldRule {
+  paths: string[];
+  keys: string[];
+}
+
+export type FieldRules = Record<MappingField, FieldRule>;
+
+export interface FieldRuleOverride {
+  paths?: string[];
+  keys?: string[];
+  mode?: 'prepend' | 'replace';
+}
+
+export type FieldRuleOverrides = Partial<Record<MappingField, FieldRuleOverride>>;
+
+export interface MappingRulesDocument {
+  version: string;
+  defaults?: FieldRuleOverrides;
+  apps?: Record<string, FieldRuleOverrides>;
+}
+
+export interface CompiledMappingRules {
+  version: string;
+  defaults: FieldRules;
+  apps: Record<string, FieldRules>;
+}
+
+const TIMESTAMP_PATHS = ['timestamp', 'time', 'eventTime', 'event_ts'];
+const TIMESTAMP_KEYS = ['timestamp', 'eventTime', 'event_ts'];
+
+export const BUILTIN_RULES_VERSION = 'builtin-1';
+
+export const DEFAULT_FIELD_RULES: FieldRules = {
+  providerEventId: {
+    paths: ['eventId', 'event_id', 'event.id', 'gs_event_id'],
+    keys: ['eventId', 'event_id', 'gs_event_id'],
+  },
+  'message.messageId': {
+    paths: [
+      'messages[0].id',
+      'statuses[0].id',
+      'message.id',
+      'messageId',
+      'message_id',
+      'payload.messages[0].id',
+      'payload.statuses[0].id',
+      'data.messages[0].id',
+      'data.statuses[0].id',
+    ],
+    keys: ['message_id', 'messageId'],
+  },
+  'message.whatsappMessageId': {
+    paths: [
+      'messages[0].whatsappMessageId',
+      'messages[0].waMessageId',
+      'statuses[0].whatsappMessageId',
+      'statuses[0].waMessageId',
+      'whatsapp_message_id',
+      'whatsappMessageId',
+      'wa_message_id',
+      'waMessageId',
+    ],
+    keys: ['whatsapp_message_id', 'whatsappMessageId', 'waMessageId', 'wa_id'],
+  },
+  'message.status': {
+    paths: [
+      'statuses[0].status',
+      'status',
+      'eventStatus',
+      'event_status',
+      'message.status',
+      'messages[0].status',
+      'data.status',
+    ],
+    keys: ['status', 'eventStatus', 'event_status'],
+  },
+  'message.templateName': {
+    paths: ['template.name', 'templateName', 'template_name', 'elementName'],
+    keys: ['template_name', 'templateName', 'elementName'],
+  },
+  'message.error': {
+    paths: ['statuses[0].errors[0]', 'messages[0].errors[0]', 'error', 'errors[0]'],
+    keys: ['error', 'errors'],
+  },
+  'message.errorCode': {
+    paths: ['statuses[0].errors[0].code', 'messages[0].errors[0].code', 'errorCode', 'error_code'],
+    keys: ['code', 'errorCode', 'error_code'],
+  },
+  'message.errorReason': {
+    paths: [
+      'statuses[0].errors[0].message',
+      'messages[0].errors[0].message',
+      'reason',
+      'errorReason',
+      'error_reason',
+    ],
+    keys: ['message', 'reason', 'errorReason', 'error_reason'],
+  },
+  'message.eventAt': {
+    paths: ['statuses[0].timestamp', 'messages[0].timestamp', ...TIMESTAMP_PATHS],
+    keys: TIMESTAMP_KEYS,
+  },
+  'template.status': {
+    paths: ['template.status', 'status', 'eventStatus', 'event_status', 'templateStatus', 'approvalStatus'],
+    keys: ['templateStatus', 'approvalStatus', 'status', 'event_status'],
+  },
+  'template.name': {
+    paths: ['template.name', 'template_name', 'templateName', 'elementName', 'name', 'payload.template_name'],
+    keys: ['template_name', 'templateName', 'elementName'],
+  },
+  'template.providerId': {
+    paths: ['template.id', 'template_provider_id', 'templateProviderId', 'providerTemplateId'],
+    keys: ['template_provider_id', 'templateProviderId', 'providerTemplateId'],
+  },
+  'template.newCategory': {
+    paths: ['template.newCategory', 'newCategory', 'new_category', 'payload.newCategory'],
+    keys: ['newCategory', 'new_category'],
+  },
+  'template.qualityScore': {
+    paths: ['template.quality', 'quality', 'qualityScore', 'quality_score'],
+    keys: ['qualityScore', 'quality_score', 'new_quality_score'],
+  },
+  'template.eventType': {
+    paths: ['event', 'eventType', 'type'],
+    keys: [],
+  },
+  'template.language': {
+    paths: ['template.language', 'language', 'lang'],
+    keys: ['language', 'lang'],
+  },
+  'template.rejectionReason': {
+    paths: ['template.rejectionReason', 'rejectionReason', 'rejection_reason', 'reason'],
+    keys: ['rejectionReason', 'rejection_reason', 'reason'],
+  },
+  'template.correctCategory': {
+    paths: ['template.correctCategory', 'correctCategory', 'correct_category'],
+    keys: ['correctCategory', 'correct_category'],
+  },
+  'template.previousCategory': {
+    paths: ['template.oldCategory', 'oldCategory', 'old_category', 'previousCategory'],
+    keys: ['oldCategory', 'old_category', 'previousCategory', 'previous_category'],
+  },
+  'template.eventAt': {
+    paths: TIMESTAMP_PATHS,
+    keys: TIMESTAMP_KEYS,
+  },
+  'user.consentEvent': {
+    paths: ['event', 'eventType', 'status', 'consent', 'opt'],
+    keys: ['event', 'eventType', 'consent', 'opt', 'status'],
+  },
+  'user.phone': {
+    paths: [
+      'phone',
+      'phone_number',
+      'msisdn',
+      'user.phone',
+      'user.phone_number',
+      'payload.phone',
+      'payload.msisdn',
+      'data.phone',
+    ],
+    keys: ['phone', 'phone_number', 'msisdn'],
+  },
+  'user.eventAt': {
+    paths: TIMESTAMP_PATHS,
+    keys: TIMESTAMP_KEYS,
+  },
+  'unknown.eventAt': {
+    paths: TIMESTAMP_PATHS,
+    keys: [],
+  },
+};
+
+const PATH_PATTERN = /^[A-Za-z0-9_$-]+(\[\d+\])*(\.[A-Za-z0-9_$-]+(\[\d+\])*)*$/;
+
+const fieldOverrideSchema = Joi.object({
+  paths: Joi.array().items(Joi.string().pattern(PATH_PATTERN)),
+  keys: Joi.array().items(Joi.string().min(1)),
+  mode: Joi.string().valid('prepend', 'replace').default('prepend'),
+}).or('paths', 'keys');
+
+const fieldOverridesSchema = Joi.object(
+  Object.fromEntries(MAPPING_FIELDS.map((field) => [field, fieldOverrideSchema])),
+);
+
+const mappingRulesDocumentSchema = Joi.object({
+  version: Joi.string().min(1).required(),
+  defaults: fieldOverridesSchema,
+  apps: Joi.object().pattern(Joi.string().min(1), fieldOverridesSchema),
+});
+
+export function compileMappingRules(input: unknown): CompiledMappingRules {
+  const { error, value } = mappingRulesDocumentSchema.validate(input, { abortEarly: false });
+  if (error) {
+    throw new Error(`Invalid normalizer rules: ${error.details.map((detail) => detail.message).join('; ')}`);
+  }
+
+  const document = value as MappingRulesDocument;
+  const defaults = applyOverrides(DEFAULT_FIELD_RULES, document.defaults ?? {});
+  const apps: Record<string, FieldRules> = {};
+  for (const [appId, overrides] of Object.entries(document.apps ?? {})) {
+    apps[appId] = applyOverrides(defaults, overrides);
+  }
+  return { version: document.version, defaults, apps };
+}
+
+export function builtinMappingRules(): CompiledMappingRules {
+  return { version: BUILTIN_RULES_VERSION, defaults: DEFAULT_FIELD_RULES, apps: {} };
+}
+
+export function resolveFieldRules(rules: CompiledMappingRules, appId: string | null): FieldRules {
+  return (appId ? rules.apps[appId] : undefined) ?? rules.defaults;
+}
+
+function applyOverrides(base: FieldRules, overrides: FieldRuleOverrides): FieldRules {
+  const result = { ...base };
+  for (const field of MAPPING_FIELDS) {
+    const override = overrides[field];
+    if (!override) {
+      continue;
+    }
+    const current = base[field];
+    const replace = override.mode === 'replace';
+    result[field] = {
+      paths: mergeList(current.paths, override.paths, replace),
+      keys: mergeList(current.keys, override.keys, replace),
+    };
+  }
+  return result;
+}
+
+function mergeList(current: string[], extra: string[] | undefined, replace: boolean): string[] {
+  if (!extra) {
+    return current;
+  }
+  if (replace) {
+    return [...extra];
+  }
+  return [...extra, ...current.filter((item) => !extra.includes(item))];
+}
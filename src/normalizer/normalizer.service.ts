@@ -1,88 +1,410 @@
 import { Injectable } from '@nestjs/common';
+import { classifyError } from './error-catalog.util';
+import { MappingRulesService } from './mapping-rules.service';
+import { FieldRules, MappingField } from './mapping-rules.util';
 import {
   ConsentEvent,
+  FieldTrace,
+  InboundMessageType,
   MessageStatus,
+  NormalizationStage,
+  NormalizationTrace,
+  NormalizedAccountEvent,
+  NormalizedBillingEvent,
+  NormalizedInboundEvent,
   NormalizedMessageEvent,
   NormalizedTemplateEvent,
   NormalizedUnknownEvent,
   NormalizedUserEvent,
   NormalizedWebhookEvent,
+  NumberStatus,
+  QualityRating,
+  TemplateQualityScore,
   TemplateStatus,
 } from './normalizer.types';
 
+interface NormalizeContext {
+  rules: FieldRules;
+  fields: Record<string, FieldTrace> | null;
+}
+
+const BATCH_KEYS = ['statuses', 'messages', 'user_preferences'];
+const NESTED_CONTAINER_KEYS = ['payload', 'data'];
+const META_TEMPLATE_FIELDS = [
+  'message_template_status_update',
+  'template_category_update',
+  'message_template_quality_update',
+];
+const META_ACCOUNT_FIELDS = ['phone_number_quality_update', 'account_update'];
+const ACCOUNT_EVENT_TYPES = ['account-event', 'system-event'];
+const INBOUND_TEXT_PATHS = ['body', 'text', 'caption', 'title', 'button_reply.title', 'list_reply.title', 'emoji'];
+const MESSAGE_STATUS_ALIASES: Record<string, MessageStatus> = {
+  enqueued: 'enqueued',
+  queued: 'enqueued',
+  pending: 'pending',
+  accepted: 'accepted',
+  sent_to_provider: 'sent_to_provider',
+  submitted: 'sent_to_provider',
+  dispatched: 'sent_to_provider',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  played: 'played',
+  deleted: 'deleted',
+  mismatch: 'mismatch',
+  failed: 'failed',
+  error: 'failed',
+  undelivered: 'failed',
+};
+const INBOUND_TYPE_ALIASES: Record<string, InboundMessageType> = {
+  text: 'text',
+  image: 'image',
+  video: 'video',
+  audio: 'audio',
+  voice: 'audio',
+  document: 'document',
+  file: 'document',
+  sticker: 'sticker',
+  location: 'location',
+  contact: 'contacts',
+  contacts: 'contacts',
+  interactive: 'interactive',
+  button: 'interactive',
+  button_reply: 'interactive',
+  list_reply: 'interactive',
+  quick_reply: 'interactive',
+  reaction: 'reaction',
+};
+
 @Injectable()
 export class NormalizerService {
-  normalize(payload: unknown): NormalizedWebhookEvent {
-    const templateEvent = this.normalizeTemplate(payload);
-    if (templateEvent) {
-      return templateEvent;
-    }
+  constructor(private readonly mappingRulesService: MappingRulesService) {}
 
-    const messageEvent = this.normalizeMessage(payload);
-    if (messageEvent) {
-      return messageEvent;
+  splitEvents(payload: unknown): unknown[] {
+    const record = this.toPlainObject(payload);
+    if (!record) {
+      return [payload];
     }
 
-    const userEvent = this.normalizeUser(payload);
-    if (userEvent) {
-      return userEvent;
+    const fragments = Array.isArray(record.entry)
+      ? this.splitMetaEnvelope(record, record.entry)
+      : this.splitGupshupPayload(record);
+    return fragments.length > 1 ? fragments : [payload];
+  }
+
+  normalize(payload: unknown, appId: string | null = null): NormalizedWebhookEvent {
+    return this.run(payload, { rules: this.mappingRulesService.forApp(appId), fields: null }).event;
+  }
+
+  normalizeWithTrace(
+    payload: unknown,
+    appId: string | null = null,
+  ): { event: NormalizedWebhookEvent; trace: NormalizationTrace } {
+    const { event, stage, fields } = this.run(payload, { rules: this.mappingRulesService.forApp(appId), fields: {} });
+    return {
+      event,
+      trace: { rulesVersion: this.mappingRulesService.getActive().version, stage, fields: fields ?? {} },
+    };
+  }
+
+  normalizeWithRules(payload: unknown, rules: FieldRules): NormalizedWebhookEvent {
+    return this.run(payload, { rules, fields: null }).event;
+  }
+
+  private run(
+    payload: unknown,
+    context: NormalizeContext,
+  ): { event: NormalizedWebhookEvent; stage: NormalizationStage; fields: Record<string, FieldTrace> | null } {
+    if (this.isMetaEnvelope(payload)) {
+      return { event: this.normalizeMeta(payload, context), stage: 'meta', fields: context.fields };
+    }
+
+    const stages: Array<[NormalizationStage, (stageContext: NormalizeContext) => NormalizedWebhookEvent | null]> = [
+      ['billing', (stageContext) => this.normalizeBilling(payload, stageContext)],
+      ['gupshup_account', (stageContext) => this.normalizeGupshupAccount(payload, stageContext)],
+      ['gupshup_inbound', (stageContext) => this.normalizeGupshupInbound(payload, stageContext)],
+      ['template', (stageContext) => this.normalizeTemplate(payload, stageContext)],
+      ['message', (stageContext) => this.normalizeMessage(payload, stageContext)],
+      ['user', (stageContext) => this.normalizeUser(payload, stageContext)],
+    ];
+    for (const [stage, normalizeStage] of stages) {
+      const stageContext = this.freshContext(context);
+      const event = normalizeStage(stageContext);
+      if (event) {
+        return { event, stage, fields: stageContext.fields };
+      }
     }
 
+    const fallbackContext = this.freshContext(context);
     const fallback: NormalizedUnknownEvent = {
       kind: 'UNKNOWN',
-      providerEventId: this.extractProviderEventId(payload),
-      eventAt: this.parseTimestamp(this.pickFirst(payload, ['timestamp', 'time', 'eventTime', 'event_ts'])),
+      providerEventId: this.extractProviderEventId(payload, fallbackContext),
+      eventAt: this.parseTimestamp(this.pickField(payload, fallbackContext, 'unknown.eventAt')),
     };
-    return fallback;
-  }
-
-  private normalizeMessage(payload: unknown): NormalizedMessageEvent | null {
-    const messageId = this.extractString(
-      this.pickFirst(payload, [
-        'messages[0].id',
-        'statuses[0].id',
-        'message.id',
-        'messageId',
-        'message_id',
-        'payload.messages[0].id',
-        'payload.statuses[0].id',
-        'data.messages[0].id',
-        'data.statuses[0].id',
-      ]) ?? this.findByKeys(payload, ['message_id', 'messageId']),
-    );
+    return { event: fallback, stage: 'unknown', fields: fallbackContext.fields };
+  }
+
+  private freshContext(context: NormalizeContext): NormalizeContext {
+    return { rules: context.rules, fields: context.fields ? {} : null };
+  }
+
+  private isMetaEnvelope(payload: unknown): boolean {
+    return Array.isArray(this.getByPath(payload, 'entry[0].changes'));
+  }
+
+  private normalizeMeta(payload: unknown, context: NormalizeContext): NormalizedWebhookEvent {
+    const field = this.extractString(this.getByPath(payload, 'entry[0].changes[0].field'));
+    const value = this.toPlainObject(this.getByPath(payload, 'entry[0].changes[0].value'));
+    const entryTime = this.getByPath(payload, 'entry[0].time');
+    const providerEventId = this.extractProviderEventId(value, context);
+
+    const status = this.toPlainObject(this.getByPath(value, 'statuses[0]'));
+    if (status) {
+      const errorObject = this.toRecord(status.errors);
+      const errorCode = this.extractString(errorObject?.code);
+      const errorReason = this.extractString(errorObject?.message ?? errorObject?.title);
+      return {
+        kind: 'MESSAGE',
+        providerEventId,
+        messageId: this.extractString(status.gs_id),
+        whatsappMessageId: this.extractString(status.id),
+        status: this.mapMessageStatus(this.extractString(status.status)),
+        eventAt: this.parseTimestamp(status.timestamp),
+        errorCode,
+        errorReason,
+        errorCategory: classifyError(errorCode, errorReason),
+        errorPayload: errorObject,
+      };
+    }
+
+    if (field && META_TEMPLATE_FIELDS.includes(field) && value) {
+      const event = this.extractString(value.event);
+      const reason = this.extractString(this.pickFirst(value, ['other_info.description', 'reason']));
+      const qualityScore = this.mapTemplateQuality(this.extractString(value.new_quality_score));
+      return {
+        kind: 'TEMPLATE',
+        providerEventId,
+        templateName: this.extractString(value.message_template_name),
+        templateProviderId: this.extractString(value.message_template_id),
+        templateStatus: this.mapTemplateStatus(event),
+        language: this.extractString(value.message_template_language),
+        rejectionReason: reason && reason.toUpperCase() !== 'NONE' ? reason : null,
+        correctCategory: this.extractString(value.correct_category),
+        previousCategory: this.extractString(value.previous_category),
+        newCategory: this.extractString(value.new_category),
+        qualityScore: qualityScore ?? (event?.toUpperCase() === 'FLAGGED' ? 'RED' : null),
+        eventAt: this.parseTimestamp(entryTime),
+      };
+    }
+
+    if (field && META_ACCOUNT_FIELDS.includes(field) && value) {
+      const accountEvent = this.extractString(value.event);
+      const banState = this.extractString(this.getByPath(value, 'ban_info.waba_ban_state'));
+      return {
+        kind: 'ACCOUNT',
+        providerEventId,
+        phoneNumber: this.normalizePhone(
+          this.extractString(this.pickFirst(value, ['display_phone_number', 'phone_number'])),
+        ),
+        accountEvent,
+        qualityRating: accountEvent?.toUpperCase() === 'FLAGGED' ? 'RED' : null,
+        messagingTier: this.extractString(value.current_limit),
+        numberStatus: this.mapNumberStatus(banState ?? accountEvent),
+        reason: this.extractString(
+          this.pickFirst(value, ['violation_info.violation_type', 'restriction_info[0].restriction_type', 'reason']),
+        ),
+        eventAt: this.parseTimestamp(entryTime),
+      };
+    }
+
+    const inbound = this.toPlainObject(this.getByPath(value, 'messages[0]'));
+    if (inbound) {
+      const rawType = this.extractString(inbound.type);
+      const content = rawType ? this.toPlainObject(inbound[rawType]) : null;
+      return {
+        kind: 'INBOUND',
+        providerEventId,
+        messageId: this.extractString(inbound.id),
+        senderPhone: this.normalizePhone(this.extractString(inbound.from)),
+        senderName: this.extractString(this.getByPath(value, 'contacts[0].profile.name')),
+        messageType: this.mapInboundType(rawType),
+        text: this.extractString(this.pickFirst(content, INBOUND_TEXT_PATHS)),
+        mediaUrl: this.extractString(content?.url),
+        latitude: this.extractNumber(content?.latitude),
+        longitude: this.extractNumber(content?.longitude),
+        contextMessageId: this.extractString(
+          this.pickFirst(inbound, ['context.gs_id', 'context.gsId', 'context.id']),
+        ),
+        eventAt: this.parseTimestamp(inbound.timestamp ?? entryTime),
+      };
+    }
+
+    const preference = this.toPlainObject(this.getByPath(value, 'user_preferences[0]'));
+    if (preference) {
+      return {
+        kind: 'USER',
+        providerEventId,
+        phone: this.normalizePhone(this.extractString(preference.wa_id)),
+        consentEvent: this.mapConsentEvent(this.extractString(preference.value)),
+        eventAt: this.parseTimestamp(preference.timestamp ?? entryTime),
+      };
+    }
+
+    return {
+      kind: 'UNKNOWN',
+      providerEventId,
+      eventAt: this.parseTimestamp(entryTime),
+    };
+  }
+
+  private normalizeBilling(payload: unknown, context: NormalizeContext): NormalizedBillingEvent | null {
+    const type = this.extractString(this.getByPath(payload, 'type'))?.toLowerCase();
+    const deductions = this.toPlainObject(this.pickFirst(payload, ['payload.deductions', 'deductions']));
+    if (type !== 'billing-event' && !deductions) {
+      return null;
+    }
+
+    const references = this.toPlainObject(this.pickFirst(payload, ['payload.references', 'references']));
+    const billable = deductions?.billable;
+    return {
+      kind: 'BILLING',
+      providerEventId: this.extractProviderEventId(payload, context),
+      conversationId: this.extractString(this.pickFirst(references, ['conversationId', 'conversation_id'])),
+      messageId: this.extractString(this.pickFirst(references, ['gsId', 'gs_id'])),
+      whatsappMessageId: this.extractString(references?.id),
+      category: this.extractString(deductions?.type)?.toLowerCase() ?? null,
+      pricingModel: this.extractString(deductions?.model)?.toUpperCase() ?? null,
+      billable: billable === true || String(billable).toLowerCase() === 'true',
+      eventAt: this.parseTimestamp(this.pickFirst(payload, ['timestamp', 'payload.timestamp'])),
+    };
+  }
 
-    const whatsappMessageId = this.extractString(
-      this.pickFirst(payload, [
-        'messages[0].whatsappMessageId',
-        'messages[0].waMessageId',
-        'statuses[0].whatsappMessageId',
-        'statuses[0].waMessageId',
-        'whatsapp_message_id',
-        'whatsappMessageId',
-        'wa_message_id',
-        'waMessageId',
-      ]) ?? this.findByKeys(payload, ['whatsapp_message_id', 'whatsappMessageId', 'waMessageId', 'wa_id']),
+  private normalizeGupshupAccount(payload: unknown, context: NormalizeContext): NormalizedAccountEvent | null {
+    const type = this.extractString(this.getByPath(payload, 'type'))?.toLowerCase();
+    const details = this.toPlainObject(this.getByPath(payload, 'payload'));
+    if (!type || !ACCOUNT_EVENT_TYPES.includes(type) || !details) {
+      return null;
+    }
+
+    const accountEvent = this.extractString(this.pickFirst(details, ['type', 'event', 'eventType']));
+    const qualityRating = this.mapQualityRating(
+      this.extractString(this.pickFirst(details, ['qualityRating', 'quality_rating', 'quality', 'currentQuality'])),
+    );
+    const messagingTier = this.extractString(
+      this.pickFirst(details, ['currentLimit', 'current_limit', 'messagingLimit', 'messaging_limit', 'tier']),
+    );
+    const numberStatus = this.mapNumberStatus(
+      this.extractString(this.pickFirst(details, ['numberStatus', 'number_status', 'status', 'banState'])) ??
+        accountEvent,
     );
+    if (!qualityRating && !messagingTier && !numberStatus) {
+      return null;
+    }
 
-    const status = this.mapMessageStatus(
-      this.extractString(
-        this.pickFirst(payload, [
-          'statuses[0].status',
-          'status',
-          'eventStatus',
-          'event_status',
-          'message.status',
-          'messages[0].status',
-          'data.status',
-        ]) ?? this.findByKeys(payload, ['status', 'eventStatus', 'event_status']),
+    return {
+      kind: 'ACCOUNT',
+      providerEventId: this.extractProviderEventId(payload, context),
+      phoneNumber: this.normalizePhone(
+        this.extractString(this.pickFirst(details, ['phone', 'phoneNumber', 'phone_number', 'displayPhoneNumber'])),
       ),
-    );
+      accountEvent,
+      qualityRating,
+      messagingTier,
+      numberStatus,
+      reason: this.extractString(this.pickFirst(details, ['reason', 'violationType', 'restrictionType'])),
+      eventAt: this.parseTimestamp(this.pickFirst(payload, ['timestamp', 'payload.timestamp'])),
+    };
+  }
+
+  private normalizeGupshupInbound(payload: unknown, context: NormalizeContext): NormalizedInboundEvent | null {
+    const type = this.extractString(this.getByPath(payload, 'type'));
+    const message = this.toPlainObject(this.getByPath(payload, 'payload'));
+    if (type?.toLowerCase() !== 'message' || !message) {
+      return null;
+    }
+
+    const content = this.toPlainObject(message.payload);
+    return {
+      kind: 'INBOUND',
+      providerEventId: this.extractProviderEventId(payload, context),
+      messageId: this.extractString(message.id),
+      senderPhone: this.normalizePhone(this.extractString(this.pickFirst(message, ['sender.phone', 'source']))),
+      senderName: this.extractString(this.getByPath(message, 'sender.name')),
+      messageType: this.mapInboundType(this.extractString(message.type)),
+      text: this.extractString(this.pickFirst(content, INBOUND_TEXT_PATHS)),
+      mediaUrl: this.extractString(content?.url),
+      latitude: this.extractNumber(content?.latitude),
+      longitude: this.extractNumber(content?.longitude),
+      contextMessageId: this.extractString(this.pickFirst(message, ['context.gsId', 'context.gs_id', 'context.id'])),
+      eventAt: this.parseTimestamp(this.pickFirst(payload, ['timestamp', 'payload.timestamp'])),
+    };
+  }
+
+  private splitGupshupPayload(record: Record<string, unknown>): unknown[] {
+    const topLevel = this.splitBatchContainer(record);
+    if (topLevel.length > 0) {
+      return topLevel;
+    }
+
+    for (const containerKey of NESTED_CONTAINER_KEYS) {
+      const container = this.toPlainObject(record[containerKey]);
+      if (!container) {
+        continue;
+      }
+      const nested = this.splitBatchContainer(container);
+      if (nested.length > 0) {
+        return nested.map((fragment) => ({ ...record, [containerKey]: fragment }));
+      }
+    }
+    return [];
+  }
+
+  private splitMetaEnvelope(record: Record<string, unknown>, entries: unknown[]): unknown[] {
+    const fragments: unknown[] = [];
+    for (const entryNode of entries) {
+      const entry = this.toPlainObject(entryNode);
+      if (!entry || !Array.isArray(entry.changes)) {
+        continue;
+      }
+      for (const changeNode of entry.changes) {
+        const change = this.toPlainObject(changeNode);
+        const value = this.toPlainObject(change?.value);
+        if (!change || !value) {
+          continue;
+        }
+        const valueFragments = this.splitBatchContainer(value);
+        for (const valueFragment of valueFragments.length > 0 ? valueFragments : [value]) {
+          fragments.push({ ...record, entry: [{ ...entry, changes: [{ ...change, value: valueFragment }] }] });
+        }
+      }
+    }
+    return fragments;
+  }
+
+  private splitBatchContainer(container: Record<string, unknown>): Record<string, unknown>[] {
+    const base: Record<string, unknown> = { ...container };
+    for (const key of BATCH_KEYS) {
+      delete base[key];
+    }
+
+    const fragments: Record<string, unknown>[] = [];
+    for (const key of BATCH_KEYS) {
+      const items = container[key];
+      if (!Array.isArray(items)) {
+        continue;
+      }
+      for (const item of items) {
+        fragments.push({ ...base, [key]: [item] });
+      }
+    }
+    return fragments;
+  }
 
-    const templateHint =
-      this.extractString(
-        this.pickFirst(payload, ['template.name', 'templateName', 'template_name', 'elementName']) ??
-          this.findByKeys(payload, ['template_name', 'templateName', 'elementName']),
-      ) ?? null;
+  private normalizeMessage(payload: unknown, context: NormalizeContext): NormalizedMessageEvent | null {
+    const messageId = this.extractString(this.pickField(payload, context, 'message.messageId'));
+    const whatsappMessageId = this.extractString(this.pickField(payload, context, 'message.whatsappMessageId'));
+    const status = this.mapMessageStatus(this.extractString(this.pickField(payload, context, 'message.status')));
+    const templateHint = this.extractString(this.pickField(payload, context, 'message.templateName'));
 
     const hasMessageSignals = Boolean(messageId || whatsappMessageId || status);
     if (!messageId && !whatsappMessageId && templateHint) {
@@ -92,152 +414,77 @@ export class NormalizerService {
       return null;
     }
 
-    const errorsNode =
-      this.pickFirst(payload, ['statuses[0].errors[0]', 'messages[0].errors[0]', 'error', 'errors[0]']) ??
-      this.findByKeys(payload, ['error', 'errors']);
+    const errorsNode = this.pickField(payload, context, 'message.error');
     const errorObject = this.toRecord(errorsNode);
-
-    const errorCode =
-      this.extractString(
-        this.pickFirst(payload, [
-          'statuses[0].errors[0].code',
-          'messages[0].errors[0].code',
-          'errorCode',
-          'error_code',
-        ]) ?? this.findByKeys(errorsNode, ['code', 'errorCode', 'error_code']),
-      ) ?? null;
-
-    const errorReason =
-      this.extractString(
-        this.pickFirst(payload, [
-          'statuses[0].errors[0].message',
-          'messages[0].errors[0].message',
-          'reason',
-          'errorReason',
-          'error_reason',
-        ]) ?? this.findByKeys(errorsNode, ['message', 'reason', 'errorReason', 'error_reason']),
-      ) ?? null;
+    const errorScope = { node: errorsNode, field: 'message.error' as const };
+    const errorCode = this.extractString(this.pickField(payload, context, 'message.errorCode', errorScope));
+    const errorReason = this.extractString(this.pickField(payload, context, 'message.errorReason', errorScope));
 
     return {
       kind: 'MESSAGE',
-      providerEventId: this.extractProviderEventId(payload),
-      messageId: messageId ?? null,
-      whatsappMessageId: whatsappMessageId ?? null,
+      providerEventId: this.extractProviderEventId(payload, context),
+      messageId,
+      whatsappMessageId,
       status,
-      eventAt: this.parseTimestamp(
-        this.pickFirst(payload, [
-          'statuses[0].timestamp',
-          'messages[0].timestamp',
-          'timestamp',
-          'time',
-          'eventTime',
-          'event_ts',
-        ]) ?? this.findByKeys(payload, ['timestamp', 'eventTime', 'event_ts']),
-      ),
+      eventAt: this.parseTimestamp(this.pickField(payload, context, 'message.eventAt')),
       errorCode,
       errorReason,
+      errorCategory: classifyError(errorCode, errorReason),
       errorPayload: errorObject,
     };
   }
 
-  private normalizeTemplate(payload: unknown): NormalizedTemplateEvent | null {
+  private normalizeTemplate(payload: unknown, context: NormalizeContext): NormalizedTemplateEvent | null {
     const templateStatus = this.mapTemplateStatus(
-      this.extractString(
-        this.pickFirst(payload, [
-          'template.status',
-          'status',
-          'eventStatus',
-          'event_status',
-          'templateStatus',
-          'approvalStatus',
-        ]) ?? this.findByKeys(payload, ['templateStatus', 'approvalStatus', 'status', 'event_status']),
-      ),
+      this.extractString(this.pickField(payload, context, 'template.status')),
     );
+    const templateName = this.extractString(this.pickField(payload, context, 'template.name'));
+    const templateProviderId = this.extractString(this.pickField(payload, context, 'template.providerId'));
 
-    const templateName =
-      this.extractString(
-        this.pickFirst(payload, [
-          'template.name',
-          'template_name',
-          'templateName',
-          'elementName',
-          'name',
-          'payload.template_name',
-        ]) ?? this.findByKeys(payload, ['template_name', 'templateName', 'elementName']),
-      ) ?? null;
-
-    const templateProviderId =
-      this.extractString(
-        this.pickFirst(payload, [
-          'template.id',
-          'template_provider_id',
-          'templateProviderId',
-          'providerTemplateId',
-        ]) ?? this.findByKeys(payload, ['template_provider_id', 'templateProviderId', 'providerTemplateId']),
-      ) ?? null;
-
-    const templateSignal = Boolean(templateStatus || templateName || templateProviderId);
-    if (!templateSignal) {
+    const eventTypeHint = this.extractString(this.pickField(payload, context, 'template.eventType'))?.toLowerCase();
+    const templateEventType = Boolean(eventTypeHint?.includes('template'));
+    if (!templateName && !templateProviderId && !templateEventType) {
+      return null;
+    }
+    if (!templateProviderId && !templateEventType && this.hasMessageId(payload, context)) {
       return null;
     }
 
-    const eventTypeHint = this.extractString(this.pickFirst(payload, ['event', 'eventType', 'type']))?.toLowerCase();
-    if (!templateStatus && !eventTypeHint?.includes('template')) {
+    const newCategory = this.extractString(this.pickField(payload, context, 'template.newCategory'));
+    const qualityScore = this.mapTemplateQuality(
+      this.extractString(this.pickField(payload, context, 'template.qualityScore')),
+    );
+
+    if (!templateStatus && !newCategory && !qualityScore && !templateEventType) {
       return null;
     }
 
     return {
       kind: 'TEMPLATE',
-      providerEventId: this.extractProviderEventId(payload),
+      providerEventId: this.extractProviderEventId(payload, context),
       templateName,
       templateProviderId,
       templateStatus,
-      language:
-        this.extractString(
-          this.pickFirst(payload, ['template.language', 'language', 'lang']) ??
-            this.findByKeys(payload, ['language', 'lang']),
-        ) ?? null,
-      rejectionReason:
-        this.extractString(
-          this.pickFirst(payload, [
-            'template.rejectionReason',
-            'rejectionReason',
-            'rejection_reason',
-            'reason',
-          ]) ?? this.findByKeys(payload, ['rejectionReason', 'rejection_reason', 'reason']),
-        ) ?? null,
-      correctCategory:
-        this.extractString(
-          this.pickFirst(payload, ['template.correctCategory', 'correctCategory', 'correct_category']) ??
-            this.findByKeys(payload, ['correctCategory', 'correct_category']),
-        ) ?? null,
-      eventAt: this.parseTimestamp(
-        this.pickFirst(payload, ['timestamp', 'time', 'eventTime', 'event_ts']) ??
-          this.findByKeys(payload, ['timestamp', 'eventTime', 'event_ts']),
-      ),
+      language: this.extractString(this.pickField(payload, context, 'template.language')),
+      rejectionReason: this.extractString(this.pickField(payload, context, 'template.rejectionReason')),
+      correctCategory: this.extractString(this.pickField(payload, context, 'template.correctCategory')),
+      previousCategory: this.extractString(this.pickField(payload, context, 'template.previousCategory')),
+      newCategory,
+      qualityScore,
+      eventAt: this.parseTimestamp(this.pickField(payload, context, 'template.eventAt')),
     };
   }
 
-  private normalizeUser(payload: unknown): NormalizedUserEvent | null {
+  private hasMessageId(payload: unknown, context: NormalizeContext): boolean {
+    const probe: NormalizeContext = { rules: context.rules, fields: null };
+    return Boolean(this.extractString(this.pickField(payload, probe, 'message.messageId')));
+  }
+
+  private normalizeUser(payload: unknown, context: NormalizeContext): NormalizedUserEvent | null {
     const consentEvent = this.mapConsentEvent(
-      this.extractString(
-        this.pickFirst(payload, ['event', 'eventType', 'status', 'consent', 'opt']) ??
-          this.findByKeys(payload, ['event', 'eventType', 'consent', 'opt', 'status']),
-      ),
+      this.extractString(this.pickField(payload, context, 'user.consentEvent')),
     );
-    const phone =
-      this.extractString(
-        this.pickFirst(payload, [
-          'phone',
-          'phone_number',
-          'msisdn',
-          'user.phone',
-          'user.phone_number',
-          'payload.phone',
-          'payload.msisdn',
-          'data.phone',
-        ]) ?? this.findByKeys(payload, ['phone', 'phone_number', 'msisdn']),
-      ) ?? null;
+    const phone = this.extractString(this.pickField(payload, context, 'user.phone'));
 
     if (!consentEvent && !phone) {
       return null;
@@ -245,46 +492,23 @@ export class NormalizerService {
 
     return {
       kind: 'USER',
-      providerEventId: this.extractProviderEventId(payload),
+      providerEventId: this.extractProviderEventId(payload, context),
       phone: this.normalizePhone(phone),
       consentEvent,
-      eventAt: this.parseTimestamp(
-        this.pickFirst(payload, ['timestamp', 'time', 'eventTime', 'event_ts']) ??
-          this.findByKeys(payload, ['timestamp', 'eventTime', 'event_ts']),
-      ),
+      eventAt: this.parseTimestamp(this.pickField(payload, context, 'user.eventAt')),
     };
   }
 
-  private extractProviderEventId(payload: unknown): string | null {
-    return (
-      this.extractString(
-        this.pickFirst(payload, ['eventId', 'event_id', 'event.id', 'gs_event_id']) ??
-          this.findByKeys(payload, ['eventId', 'event_id', 'gs_event_id']),
-      ) ?? null
-    );
+  private extractProviderEventId(payload: unknown, context: NormalizeContext): string | null {
+    return this.extractString(this.pickField(payload, context, 'providerEventId'));
   }
 
   private mapMessageStatus(value: string | null | undefined): MessageStatus | null {
     if (!value) {
       return null;
     }
-    const normalized = value.trim().toLowerCase();
-    if (normalized === 'accepted') {
-      return 'accepted';
-    }
-    if (normalized === 'sent') {
-      return 'sent';
-    }
-    if (normalized === 'delivered') {
-      return 'delivered';
-    }
-    if (normalized === 'read') {
-      return 'read';
-    }
-    if (['failed', 'error', 'undelivered'].includes(normalized)) {
-      return 'failed';
-    }
-    return null;
+    const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    return MESSAGE_STATUS_ALIASES[normalized] ?? null;
   }
 
   private mapTemplateStatus(value: string | null | undefined): TemplateStatus | null {
@@ -304,18 +528,37 @@ export class NormalizerService {
     if (['SUBMITTED', 'IN_REVIEW'].includes(normalized)) {
       return 'SUBMITTED';
     }
+    if (normalized === 'PAUSED') {
+      return 'PAUSED';
+    }
+    if (normalized === 'DISABLED') {
+      return 'DISABLED';
+    }
+    if (normalized === 'REINSTATED') {
+      return 'APPROVED';
+    }
     return null;
   }
 
+  private mapTemplateQuality(value: string | null | undefined): TemplateQualityScore | null {
+    if (!value) {
+      return null;
+    }
+    if (value.trim().toUpperCase() === 'UNKNOWN') {
+      return 'UNKNOWN';
+    }
+    return this.mapQualityRating(value);
+  }
+
   private mapConsentEvent(value: string | null | undefined): ConsentEvent | null {
     if (!value) {
       return null;
     }
     const normalized = value.trim().toUpperCase();
-    if (['OPT_IN', 'SUBSCRIBE', 'CONSENT_GRANTED'].includes(normalized)) {
+    if (['OPT_IN', 'SUBSCRIBE', 'CONSENT_GRANTED', 'RESUME'].includes(normalized)) {
       return 'OPT_IN';
     }
-    if (['OPT_OUT', 'UNSUBSCRIBE', 'CONSENT_REVOKED'].includes(normalized)) {
+    if (['OPT_OUT', 'UNSUBSCRIBE', 'CONSENT_REVOKED', 'STOP'].includes(normalized)) {
       return 'OPT_OUT';
     }
     if (['BLOCKED', 'BLOCK', 'USER_BLOCKED'].includes(normalized)) {
@@ -324,6 +567,53 @@ export class NormalizerService {
     return null;
   }
 
+  private mapQualityRating(value: string | null | undefined): QualityRating | null {
+    if (!value) {
+      return null;
+    }
+    const normalized = value.trim().toUpperCase();
+    if (['GREEN', 'HIGH'].includes(normalized)) {
+      return 'GREEN';
+    }
+    if (['YELLOW', 'MEDIUM'].includes(normalized)) {
+      return 'YELLOW';
+    }
+    if (['RED', 'LOW'].includes(normalized)) {
+      return 'RED';
+    }
+    return null;
+  }
+
+  private mapNumberStatus(value: string | null | undefined): NumberStatus | null {
+    if (!value) {
+      return null;
+    }
+    const normalized = value.trim().toUpperCase();
+    if (['CONNECTED', 'UNFLAGGED', 'REINSTATE', 'REINSTATED', 'ACTIVE'].includes(normalized)) {
+      return 'CONNECTED';
+    }
+    if (['FLAGGED', 'SCHEDULE_FOR_DISABLE', 'ACCOUNT_VIOLATION'].includes(normalized)) {
+      return 'FLAGGED';
+    }
+    if (['RESTRICTED', 'ACCOUNT_RESTRICTION', 'RATE_LIMITED'].includes(normalized)) {
+      return 'RESTRICTED';
+    }
+    if (['BANNED', 'DISABLE', 'BAN', 'ACCOUNT_BANNED'].includes(normalized)) {
+      return 'BANNED';
+    }
+    if (['DISABLED', 'DISABLED_UPDATE', 'PHONE_NUMBER_REMOVED', 'DELETED'].includes(normalized)) {
+      return 'DISABLED';
+    }
+    return null;
+  }
+
+  private mapInboundType(value: string | null | undefined): InboundMessageType {
+    if (!value) {
+      return 'other';
+    }
+    return INBOUND_TYPE_ALIASES[value.trim().toLowerCase()] ?? 'other';
+  }
+
   private parseTimestamp(value: unknown): Date | null {
     if (value === null || value === undefined) {
       return null;
@@ -361,6 +651,38 @@ export class NormalizerService {
     return Number.isNaN(date.getTime()) ? null : date;
   }
 
+  private pickField(
+    payload: unknown,
+    context: NormalizeContext,
+    field: MappingField,
+    keysScope: { node: unknown; field: MappingField } | null = null,
+  ): unknown {
+    const rule = context.rules[field];
+    for (const path of rule.paths) {
+      const value = this.getByPath(payload, path);
+      if (!this.isEmpty(value)) {
+        this.recordField(context, field, { path, deep: false, within: null });
+        return value;
+      }
+    }
+    if (rule.keys.length === 0) {
+      return undefined;
+    }
+
+    const match = this.findByKeysWithPath(keysScope ? keysScope.node : payload, rule.keys);
+    if (!match) {
+      return undefined;
+    }
+    this.recordField(context, field, { path: match.path, deep: true, within: keysScope?.field ?? null });
+    return match.value;
+  }
+
+  private recordField(context: NormalizeContext, field: MappingField, trace: FieldTrace): void {
+    if (context.fields) {
+      context.fields[field] = trace;
+    }
+  }
+
   private pickFirst(payload: unknown, paths: string[]): unknown {
     for (const path of paths) {
       const value = this.getByPath(payload, path);
@@ -393,36 +715,37 @@ export class NormalizerService {
     return cursor;
   }
 
-  private findByKeys(payload: unknown, keys: string[]): unknown {
+  private findByKeysWithPath(payload: unknown, keys: string[]): { value: unknown; path: string } | null {
     if (!payload || typeof payload !== 'object') {
-      return undefined;
+      return null;
     }
     const wanted = new Set(keys.map((key) => key.toLowerCase()));
-    const queue: unknown[] = [payload];
+    const queue: Array<{ node: unknown; path: string }> = [{ node: payload, path: '' }];
 
     while (queue.length > 0) {
-      const node = queue.shift();
+      const { node, path } = queue.shift() as { node: unknown; path: string };
       if (!node || typeof node !== 'object') {
         continue;
       }
 
       if (Array.isArray(node)) {
-        queue.push(...node);
+        node.forEach((item, index) => queue.push({ node: item, path: `${path}[${index}]` }));
         continue;
       }
 
       const record = node as Record<string, unknown>;
       for (const [key, value] of Object.entries(record)) {
+        const childPath = path ? `${path}.${key}` : key;
         if (wanted.has(key.toLowerCase()) && !this.isEmpty(value)) {
-          return value;
+          return { value, path: childPath };
         }
         if (value && typeof value === 'object') {
-          queue.push(value);
+          queue.push({ node: value, path: childPath });
         }
       }
     }
 
-    return undefined;
+    return null;
   }
 
   private extractString(value: unknown): string | null {
@@ -439,6 +762,14 @@ export class NormalizerService {
     return null;
   }
 
+  private extractNumber(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
   private isEmpty(value: unknown): boolean {
     if (value === null || value === undefined) {
       return true;
@@ -452,6 +783,13 @@ export class NormalizerService {
     return false;
   }
 
+  private toPlainObject(value: unknown): Record<string, unknown> | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return null;
+    }
+    return value as Record<string, unknown>;
+  }
+
   private toRecord(value: unknown): Record<string, unknown> | null {
     if (!value || typeof value !== 'object') {
       return null;
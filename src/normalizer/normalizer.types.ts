@@ -1,11 +1,53 @@
-export type EventKind = 'MESSAGE' | 'TEMPLATE' | 'USER' | 'UNKNOWN';
+export type EventKind = 'MESSAGE' | 'TEMPLATE' | 'USER' | 'INBOUND' | 'BILLING' | 'ACCOUNT' | 'UNKNOWN';
 
-export type MessageStatus = 'accepted' | 'sent' | 'delivered' | 'read' | 'failed';
+export type MessageStatus =
+  | 'enqueued'
+  | 'pending'
+  | 'accepted'
+  | 'sent_to_provider'
+  | 'sent'
+  | 'delivered'
+  | 'read'
+  | 'played'
+  | 'deleted'
+  | 'mismatch'
+  | 'failed';
 
-export type TemplateStatus = 'APPROVED' | 'REJECTED' | 'PENDING' | 'SUBMITTED';
+export type TemplateStatus = 'APPROVED' | 'REJECTED' | 'PENDING' | 'SUBMITTED' | 'PAUSED' | 'DISABLED';
 
 export type ConsentEvent = 'OPT_IN' | 'OPT_OUT' | 'BLOCKED';
 
+export type QualityRating = 'GREEN' | 'YELLOW' | 'RED';
+
+export type TemplateQualityScore = QualityRating | 'UNKNOWN';
+
+export type NumberStatus = 'CONNECTED' | 'FLAGGED' | 'RESTRICTED' | 'BANNED' | 'DISABLED';
+
+export type ErrorCategory =
+  | 'RETRYABLE'
+  | 'INVALID_NUMBER'
+  | 'POLICY'
+  | 'USER_OPTED_OUT'
+  | 'RATE_LIMIT'
+  | 'TEMPLATE'
+  | 'PAYMENT'
+  | 'AUTH'
+  | 'INVALID_REQUEST'
+  | 'UNKNOWN';
+
+export type InboundMessageType =
+  | 'text'
+  | 'image'
+  | 'video'
+  | 'audio'
+  | 'document'
+  | 'sticker'
+  | 'location'
+  | 'contacts'
+  | 'interactive'
+  | 'reaction'
+  | 'other';
+
 export interface NormalizedMessageEvent {
   kind: 'MESSAGE';
   providerEventId: string | null;
@@ -15,6 +57,7 @@ export interface NormalizedMessageEvent {
   eventAt: Date | null;
   errorCode: string | null;
   errorReason: string | null;
+  errorCategory: ErrorCategory | null;
   errorPayload: Record<string, unknown> | null;
 }
 
@@ -27,6 +70,9 @@ export interface NormalizedTemplateEvent {
   language: string | null;
   rejectionReason: string | null;
   correctCategory: string | null;
+  previousCategory: string | null;
+  newCategory: string | null;
+  qualityScore: TemplateQualityScore | null;
   eventAt: Date | null;
 }
 
@@ -38,6 +84,45 @@ export interface NormalizedUserEvent {
   eventAt: Date | null;
 }
 
+export interface NormalizedInboundEvent {
+  kind: 'INBOUND';
+  providerEventId: string | null;
+  messageId: string | null;
+  senderPhone: string | null;
+  senderName: string | null;
+  messageType: InboundMessageType;
+  text: string | null;
+  mediaUrl: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  contextMessageId: string | null;
+  eventAt: Date | null;
+}
+
+export interface NormalizedBillingEvent {
+  kind: 'BILLING';
+  providerEventId: string | null;
+  conversationId: string | null;
+  messageId: string | null;
+  whatsappMessageId: string | null;
+  category: string | null;
+  pricingModel: string | null;
+  billable: boolean;
+  eventAt: Date | null;
+}
+
+export interface NormalizedAccountEvent {
+  kind: 'ACCOUNT';
+  providerEventId: string | null;
+  phoneNumber: string | null;
+  accountEvent: string | null;
+  qualityRating: QualityRating | null;
+  messagingTier: string | null;
+  numberStatus: NumberStatus | null;
+  reason: string | null;
+  eventAt: Date | null;
+}
+
 export interface NormalizedUnknownEvent {
   kind: 'UNKNOWN';
   providerEventId: string | null;
@@ -48,4 +133,29 @@ export type NormalizedWebhookEvent =
   | NormalizedMessageEvent
   | NormalizedTemplateEvent
   | NormalizedUserEvent
+  | NormalizedInboundEvent
+  | NormalizedBillingEvent
+  | NormalizedAccountEvent
   | NormalizedUnknownEvent;
+
+export type NormalizationStage =
+  | 'meta'
+  | 'billing'
+  | 'gupshup_account'
+  | 'gupshup_inbound'
+  | 'template'
+  | 'message'
+  | 'user'
+  | 'unknown';
+
+export interface FieldTrace {
+  path: string;
+  deep: boolean;
+  within: string | null;
+}
+
+export interface NormalizationTrace {
+  rulesVersion: string;
+  stage: NormalizationStage;
+  fields: Record<string, FieldTrace>;
+}
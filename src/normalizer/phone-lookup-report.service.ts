@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+import { AppConfigService } from '../config/app-config.service';
+import { ConsentRepo, PhoneLookupMissReason, STORED_PHONE_MIN_SUFFIX_DIGITS } from '../repos/consent.repo';
+import { phoneFormatPattern } from './phone.util';
+
+export interface PhoneLookupMissReportItem {
+  companyId: number;
+  rawPhone: string;
+  canonicalPhone: string | null;
+  defaultCountry: string | null;
+  reason: PhoneLookupMissReason;
+  occurrences: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  likelyFormatMismatch: boolean | null;
+  storedFormats: string[] | null;
+}
+
+const DIAGNOSE_SUFFIX_DIGITS = STORED_PHONE_MIN_SUFFIX_DIGITS;
+const DIAGNOSE_MAX_MISSES = 10;
+const DIAGNOSE_MAX_MATCHES = 5;
+
+@Injectable()
+export class PhoneLookupReportService {
+  constructor(
+    private readonly appConfigService: AppConfigService,
+    private readonly consentRepo: ConsentRepo,
+  ) {}
+
+  async buildReport(companyId: number | null, limit: number, diagnose: boolean): Promise<PhoneLookupMissReportItem[]> {
+    const rows = await this.consentRepo.listPhoneLookupMisses(companyId, limit);
+    const items: PhoneLookupMissReportItem[] = [];
+    const timeoutMs = this.appConfigService.userPhoneScanTimeoutMs;
+    let diagnoseAvailable = diagnose && timeoutMs > 0;
+
+    for (const [index, row] of rows.entries()) {
+      let storedFormats: string[] | null = null;
+      if (diagnoseAvailable && index < DIAGNOSE_MAX_MISSES) {
+        const digits = (row.canonical_phone ?? row.raw_phone).replace(/\D/g, '');
+        if (digits.length >= DIAGNOSE_SUFFIX_DIGITS) {
+          try {
+            const stored = await this.consentRepo.findStoredPhonesBySuffix(
+              digits.slice(-DIAGNOSE_SUFFIX_DIGITS),
+              this.appConfigService.userPhoneColumn,
+              this.appConfigService.userPhoneNormalizedColumn,
+              DIAGNOSE_MAX_MATCHES,
+              timeoutMs,
+            );
+            storedFormats = [...new Set(stored.map((phone) => phoneFormatPattern(phone)))];
+          } catch {
+            diagnoseAvailable = false;
+          }
+        }
+      }
+
+      items.push({
+        companyId: row.company_id,
+        rawPhone: phoneFormatPattern(row.raw_phone),
+        canonicalPhone: row.canonical_phone ? phoneFormatPattern(row.canonical_phone) : null,
+        defaultCountry: row.default_country,
+        reason: row.reason,
+        occurrences: Number(row.occurrences),
+        firstSeenAt: row.first_seen_at.toISOString(),
+        lastSeenAt: row.last_seen_at.toISOString(),
+        likelyFormatMismatch: storedFormats ? storedFormats.length > 0 : null,
+        storedFormats,
+      });
+    }
+
+    return items;
+  }
+}
@@ -0,0 +1,132 @@
+interface CountryPhonePlan {
+  callingCode: string;
+  trunkPrefix: string | null;
+  nationalLengths: number[];
+}
+
+export interface PhoneLookup {
+  raw: string;
+  canonical: string | null;
+  candidates: string[];
+  nationalCandidates: string[];
+}
+
+export const COUNTRY_PHONE_PLANS: Record<string, CountryPhonePlan> = {
+  AR: { callingCode: '54', trunkPrefix: '0', nationalLengths: [10, 11] },
+  BO: { callingCode: '591', trunkPrefix: '0', nationalLengths: [8] },
+  BR: { callingCode: '55', trunkPrefix: '0', nationalLengths: [10, 11] },
+  CA: { callingCode: '1', trunkPrefix: null, nationalLengths: [10] },
+  CL: { callingCode: '56', trunkPrefix: null, nationalLengths: [9] },
+  CO: { callingCode: '57', trunkPrefix: null, nationalLengths: [10] },
+  CR: { callingCode: '506', trunkPrefix: null, nationalLengths: [8] },
+  DO: { callingCode: '1', trunkPrefix: null, nationalLengths: [10] },
+  EC: { callingCode: '593', trunkPrefix: '0', nationalLengths: [8, 9] },
+  ES: { callingCode: '34', trunkPrefix: null, nationalLengths: [9] },
+  GT: { callingCode: '502', trunkPrefix: null, nationalLengths: [8] },
+  MX: { callingCode: '52', trunkPrefix: null, nationalLengths: [10] },
+  PA: { callingCode: '507', trunkPrefix: null, nationalLengths: [7, 8] },
+  PE: { callingCode: '51', trunkPrefix: '0', nationalLengths: [8, 9] },
+  PY: { callingCode: '595', trunkPrefix: '0', nationalLengths: [9] },
+  US: { callingCode: '1', trunkPrefix: null, nationalLengths: [10] },
+  UY: { callingCode: '598', trunkPrefix: '0', nationalLengths: [8] },
+  VE: { callingCode: '58', trunkPrefix: '0', nationalLengths: [10] },
+};
+
+export function isSupportedPhoneCountry(country: string | null): boolean {
+  return Boolean(country && COUNTRY_PHONE_PLANS[country.toUpperCase()]);
+}
+
+export function toE164(raw: string | null, defaultCountry: string | null): string | null {
+  if (!raw) {
+    return null;
+  }
+  const trimmed = raw.trim();
+  let digits = trimmed.replace(/\D/g, '');
+  let international = trimmed.startsWith('+');
+  if (!international && digits.startsWith('00')) {
+    digits = digits.slice(2);
+    international = true;
+  }
+  if (digits.length === 0) {
+    return null;
+  }
+
+  const plan = defaultCountry ? COUNTRY_PHONE_PLANS[defaultCountry.toUpperCase()] : undefined;
+  if (digits.startsWith('521') && digits.length === 13 && (international || !plan || plan.callingCode === '52')) {
+    digits = `52${digits.slice(3)}`;
+  }
+  if (!international && plan) {
+    const withoutCallingCode = digits.startsWith(plan.callingCode) ? digits.length - plan.callingCode.length : -1;
+    if (plan.nationalLengths.includes(withoutCallingCode)) {
+      international = true;
+    } else {
+      const national =
+        plan.trunkPrefix &&
+        digits.startsWith(plan.trunkPrefix) &&
+        plan.nationalLengths.includes(digits.length - plan.trunkPrefix.length)
+          ? digits.slice(plan.trunkPrefix.length)
+          : digits;
+      if (!plan.nationalLengths.includes(national.length)) {
+        return null;
+      }
+      digits = `${plan.callingCode}${national}`;
+      international = true;
+    }
+  }
+
+  if (!international && digits.length < 10) {
+    return null;
+  }
+  return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+}
+
+export function buildPhoneLookup(raw: string, defaultCountry: string | null): PhoneLookup {
+  const canonical = toE164(raw, defaultCountry);
+  const candidates = new Set<string>();
+  const nationalCandidates = new Set<string>();
+  if (canonical) {
+    const digits = canonical.slice(1);
+    candidates.add(canonical);
+    candidates.add(digits);
+
+    const defaultPlan = defaultCountry ? COUNTRY_PHONE_PLANS[defaultCountry.toUpperCase()] : undefined;
+    const plan =
+      defaultPlan && digits.startsWith(defaultPlan.callingCode)
+        ? defaultPlan
+        : Object.values(COUNTRY_PHONE_PLANS).find((item) => digits.startsWith(item.callingCode));
+    if (plan) {
+      const national = digits.slice(plan.callingCode.length);
+      nationalCandidates.add(national);
+      if (plan.trunkPrefix) {
+        nationalCandidates.add(`${plan.trunkPrefix}${national}`);
+      }
+      if (plan.callingCode === '52') {
+        candidates.add(`+521${national}`);
+        candidates.add(`521${national}`);
+      }
+      if (plan.callingCode === '54' && national.startsWith('9')) {
+        candidates.add(`+54${national.slice(1)}`);
+        candidates.add(`54${national.slice(1)}`);
+      }
+    }
+  }
+  const rawDigits = raw.replace(/\D/g, '').replace(/^00/, '');
+  if (candidates.has(rawDigits)) {
+    candidates.add(raw);
+  } else {
+    nationalCandidates.add(raw);
+  }
+  for (const candidate of candidates) {
+    nationalCandidates.delete(candidate);
+  }
+  return { raw, canonical, candidates: [...candidates], nationalCandidates: [...nationalCandidates] };
+}
+
+export function phoneFormatPattern(phone: string): string {
+  const digitCount = phone.replace(/\D/g, '').length;
+  let seen = 0;
+  return phone.replace(/\d/g, (digit) => {
+    seen += 1;
+    return seen > digitCount - 4 ? digit : '#';
+  });
+}
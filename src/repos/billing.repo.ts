@@ -0,0 +1,81 @@
+import { Injectable } from '@nestjs/common';
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { MysqlService } from '../db/mysql.service';
+import { NormalizedBillingEvent } from '../normalizer/normalizer.types';
+
+export interface CampaignBillingSummaryRow extends RowDataPacket {
+  campaign_id: number;
+  category: string | null;
+  billable_conversations: number;
+}
+
+@Injectable()
+export class BillingRepo {
+  constructor(private readonly mysqlService: MysqlService) {}
+
+  async upsertConversationBilling(
+    connection: PoolConnection,
+    integrationId: number,
+    companyId: number,
+    recipientId: number | null,
+    event: NormalizedBillingEvent,
+    conversationId: string,
+    billedAt: Date,
+  ): Promise<void> {
+    const sql = `
+      INSERT INTO wpp_conversation_billing (
+        integration_id,
+        company_id,
+        conversation_id,
+        message_key,
+        recipient_id,
+        message_id,
+        whatsapp_message_id,
+        category,
+        pricing_model,
+        billable,
+        billed_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        recipient_id = COALESCE(recipient_id, VALUES(recipient_id)),
+        message_id = COALESCE(message_id, VALUES(message_id)),
+        whatsapp_message_id = COALESCE(whatsapp_message_id, VALUES(whatsapp_message_id)),
+        category = COALESCE(VALUES(category), category),
+        pricing_model = COALESCE(VALUES(pricing_model), pricing_model),
+        billable = GREATEST(billable, VALUES(billable)),
+        updated_at = NOW()
+    `;
+    await connection.query(sql, [
+      integrationId,
+      companyId,
+      conversationId,
+      (event.whatsappMessageId ?? event.messageId ?? '').slice(0, 120),
+      recipientId,
+      event.messageId,
+      event.whatsappMessageId,
+      event.category,
+      event.pricingModel,
+      event.billable ? 1 : 0,
+      billedAt,
+    ]);
+  }
+
+  async sumBillableByCampaign(campaignId: number): Promise<CampaignBillingSummaryRow[]> {
+    const sql = `
+      SELECT
+        r.campaign_id,
+        b.category,
+        COUNT(DISTINCT IF(b.pricing_model = 'PMP', CONCAT('m:', b.id), CONCAT('c:', b.conversation_id)))
+          AS billable_conversations
+      FROM wpp_conversation_billing b
+      INNER JOIN wpp_campaign_recipient r ON r.id = b.recipient_id
+      WHERE r.campaign_id = ?
+        AND b.billable = 1
+      GROUP BY r.campaign_id, b.category
+      ORDER BY b.category
+    `;
+    const [rows] = await this.mysqlService.getPool().query<CampaignBillingSummaryRow[]>(sql, [campaignId]);
+    return rows;
+  }
+}
@@ -1,9 +1,28 @@
 import { Injectable } from '@nestjs/common';
 import { PoolConnection, RowDataPacket } from 'mysql2/promise';
 import { MysqlService } from '../db/mysql.service';
+import { PhoneLookup } from '../normalizer/phone.util';
 
 type ConsentType = 'OPT_IN' | 'OPT_OUT';
 type CurrentStatus = 'UNKNOWN' | 'OPT_IN' | 'OPT_OUT';
+export type PhoneLookupMissReason = 'UNPARSEABLE' | 'NOT_FOUND';
+
+export const STORED_PHONE_MIN_SUFFIX_DIGITS = 8;
+
+export interface PhoneLookupMissRow extends RowDataPacket {
+  company_id: number;
+  raw_phone: string;
+  canonical_phone: string | null;
+  default_country: string | null;
+  reason: PhoneLookupMissReason;
+  occurrences: number;
+  first_seen_at: Date;
+  last_seen_at: Date;
+}
+
+interface StoredPhoneRow extends RowDataPacket {
+  phone: string;
+}
 
 interface MarketingCurrentRow extends RowDataPacket {
   user_id: number;
@@ -17,22 +36,160 @@ interface UserRow extends RowDataPacket {
   id: number;
 }
 
+export interface UserCompanyScope {
+  column: string;
+  companyId: number;
+}
+
 @Injectable()
 export class ConsentRepo {
   constructor(private readonly mysqlService: MysqlService) {}
 
   async findUserIdByPhone(
     connection: PoolConnection,
-    phone: string,
+    lookup: PhoneLookup,
     phoneColumn: string,
+    normalizedColumn: string | null,
+    companyScope: UserCompanyScope | null,
   ): Promise<number | null> {
-    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(phoneColumn)) {
-      throw new Error('Invalid USER_PHONE_COLUMN');
+    this.assertColumn(phoneColumn, 'USER_PHONE_COLUMN');
+
+    if (normalizedColumn) {
+      this.assertColumn(normalizedColumn, 'USER_PHONE_NORMALIZED_COLUMN');
+      const values = [...new Set([...lookup.candidates, ...this.digitsOf(lookup.candidates)])];
+      const userId = await this.findUserIdByExpressionValues(connection, `\`${normalizedColumn}\``, values, null);
+      if (userId) {
+        return userId;
+      }
     }
 
-    const sql = `SELECT id FROM \`awer_core\`.\`user\` WHERE \`${phoneColumn}\` = ? LIMIT 1`;
-    const [rows] = await connection.query<UserRow[]>(sql, [phone]);
-    return rows.length > 0 ? rows[0].id : null;
+    const exactUserId = await this.findUserIdByExpressionValues(
+      connection,
+      `\`${phoneColumn}\``,
+      lookup.candidates,
+      null,
+    );
+    if (exactUserId || !companyScope) {
+      return exactUserId;
+    }
+    this.assertColumn(companyScope.column, 'USER_COMPANY_COLUMN');
+    return this.findUserIdByExpressionValues(connection, `\`${phoneColumn}\``, lookup.nationalCandidates, companyScope);
+  }
+
+  async scanUserIdByPhoneDigits(
+    lookup: PhoneLookup,
+    phoneColumn: string,
+    companyScope: UserCompanyScope | null,
+    timeoutMs: number,
+  ): Promise<number | null> {
+    this.assertColumn(phoneColumn, 'USER_PHONE_COLUMN');
+    const expression = this.digitsOnlyExpression(phoneColumn);
+    const digitCandidates = this.digitsOf(lookup.candidates);
+    const nationalDigits = companyScope ? this.digitsOf(lookup.nationalCandidates) : [];
+    if (digitCandidates.length === 0) {
+      return null;
+    }
+
+    const conditions = [`${expression} IN (?)`];
+    const params: unknown[] = [digitCandidates];
+    if (companyScope && nationalDigits.length > 0) {
+      this.assertColumn(companyScope.column, 'USER_COMPANY_COLUMN');
+      conditions.push(`(\`${companyScope.column}\` = ? AND ${expression} IN (?))`);
+      params.push(companyScope.companyId, nationalDigits);
+    }
+    const sql = `
+      SELECT id FROM \`awer_core\`.\`user\`
+      WHERE ${conditions.join(' OR ')}
+      LIMIT 2
+    `;
+    const [rows] = await this.mysqlService.getPool().query<UserRow[]>({ sql, timeout: timeoutMs }, params);
+    return rows.length === 1 ? rows[0].id : null;
+  }
+
+  async recordPhoneLookupMiss(
+    connection: PoolConnection,
+    companyId: number,
+    lookup: PhoneLookup,
+    defaultCountry: string | null,
+    reason: PhoneLookupMissReason,
+  ): Promise<void> {
+    const phoneKey = (lookup.canonical ?? lookup.raw.replace(/\D/g, '')).slice(0, 32) || lookup.raw.slice(0, 32);
+    const sql = `
+      INSERT INTO wpp_phone_lookup_miss (
+        company_id,
+        phone_key,
+        raw_phone,
+        canonical_phone,
+        default_country,
+        reason
+      )
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        raw_phone = VALUES(raw_phone),
+        canonical_phone = VALUES(canonical_phone),
+        default_country = VALUES(default_country),
+        reason = VALUES(reason),
+        occurrences = occurrences + 1,
+        last_seen_at = NOW()
+    `;
+    await connection.query(sql, [
+      companyId,
+      phoneKey,
+      lookup.raw.slice(0, 64),
+      lookup.canonical,
+      defaultCountry,
+      reason,
+    ]);
+  }
+
+  async listPhoneLookupMisses(companyId: number | null, limit: number): Promise<PhoneLookupMissRow[]> {
+    const sql = `
+      SELECT
+        company_id,
+        raw_phone,
+        canonical_phone,
+        default_country,
+        reason,
+        occurrences,
+        first_seen_at,
+        last_seen_at
+      FROM wpp_phone_lookup_miss
+      ${companyId === null ? '' : 'WHERE company_id = ?'}
+      ORDER BY last_seen_at DESC
+      LIMIT ?
+    `;
+    const params = companyId === null ? [limit] : [companyId, limit];
+    const [rows] = await this.mysqlService.getPool().query<PhoneLookupMissRow[]>(sql, params);
+    return rows;
+  }
+
+  async findStoredPhonesBySuffix(
+    suffix: string,
+    phoneColumn: string,
+    normalizedColumn: string | null,
+    limit: number,
+    timeoutMs: number,
+  ): Promise<string[]> {
+    this.assertColumn(phoneColumn, 'USER_PHONE_COLUMN');
+    if (!/^\d+$/.test(suffix) || suffix.length < STORED_PHONE_MIN_SUFFIX_DIGITS) {
+      return [];
+    }
+
+    let matchExpression = this.digitsOnlyExpression(phoneColumn);
+    if (normalizedColumn) {
+      this.assertColumn(normalizedColumn, 'USER_PHONE_NORMALIZED_COLUMN');
+      matchExpression = `\`${normalizedColumn}\``;
+    }
+    const sql = `
+      SELECT \`${phoneColumn}\` AS phone
+      FROM \`awer_core\`.\`user\`
+      WHERE ${matchExpression} LIKE ?
+      LIMIT ?
+    `;
+    const [rows] = await this.mysqlService
+      .getPool()
+      .query<StoredPhoneRow[]>({ sql, timeout: timeoutMs }, [`%${suffix}`, limit]);
+    return rows.map((row) => row.phone);
   }
 
   async insertConsentEvent(
@@ -100,6 +257,41 @@ export class ConsentRepo {
     await connection.query(updateSql, [nextStatus, nextLastOptIn, nextLastOptOut, userId, companyId]);
   }
 
+  private async findUserIdByExpressionValues(
+    connection: PoolConnection,
+    expression: string,
+    values: string[],
+    companyScope: UserCompanyScope | null,
+  ): Promise<number | null> {
+    if (values.length === 0) {
+      return null;
+    }
+    const sql = `
+      SELECT id FROM \`awer_core\`.\`user\`
+      WHERE ${expression} IN (?)
+      ${companyScope ? `AND \`${companyScope.column}\` = ?` : ''}
+      ORDER BY FIELD(${expression}, ?)
+      LIMIT 1
+    `;
+    const params = companyScope ? [values, companyScope.companyId, values] : [values, values];
+    const [rows] = await connection.query<UserRow[]>(sql, params);
+    return rows.length > 0 ? rows[0].id : null;
+  }
+
+  private digitsOf(values: string[]): string[] {
+    return [...new Set(values.map((value) => value.replace(/\D/g, '')))].filter((value) => value.length > 0);
+  }
+
+  private digitsOnlyExpression(column: string): string {
+    return `REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(\`${column}\`, ' ', ''), '-', ''), '+', ''), '(', ''), ')', ''), '.', '')`;
+  }
+
+  private assertColumn(column: string, configKey: string): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(column)) {
+      throw new Error(`Invalid ${configKey}`);
+    }
+  }
+
   private maxDate(existing: Date | null, candidate: Date): Date {
     if (!existing) {
       return candidate;
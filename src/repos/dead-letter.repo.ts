@@ -0,0 +1,164 @@
+import { Injectable } from '@nestjs/common';
+import { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { MysqlService } from '../db/mysql.service';
+import { EventKind } from '../normalizer/normalizer.types';
+
+export type DeadLetterStatus = 'PENDING' | 'REQUEUED' | 'DISCARDED';
+
+export interface DeadLetterInsertInput {
+  rawId: number;
+  lastError: string;
+  errorStack: string | null;
+  normalizedSummary: Record<string, unknown> | null;
+}
+
+export interface DeadLetterFilter {
+  status: DeadLetterStatus;
+  appId: string | null;
+  eventKind: EventKind | null;
+  errorContains: string | null;
+  limit: number;
+}
+
+export interface DeadLetterRow extends RowDataPacket {
+  id: number;
+  raw_id: number;
+  app_id: string;
+  event_kind: EventKind;
+  attempts: number;
+  last_error: string;
+  error_stack: string | null;
+  attempt_history: unknown;
+  normalized_summary: unknown;
+  status: DeadLetterStatus;
+  dead_at: Date;
+  resolved_at: Date | null;
+}
+
+const DEAD_LETTER_COLUMNS = `
+  id,
+  raw_id,
+  app_id,
+  event_kind,
+  attempts,
+  last_error,
+  error_stack,
+  attempt_history,
+  normalized_summary,
+  status,
+  dead_at,
+  resolved_at
+`;
+
+interface DeadLetterIdRow extends RowDataPacket {
+  id: number;
+  raw_id: number;
+}
+
+@Injectable()
+export class DeadLetterRepo {
+  constructor(private readonly mysqlService: MysqlService) {}
+
+  async insertFromRaw(connection: PoolConnection, input: DeadLetterInsertInput): Promise<void> {
+    const sql = `
+      INSERT INTO wpp_webhook_event_dead_letter (
+        raw_id,
+        app_id,
+        event_kind,
+        attempts,
+        last_error,
+        error_stack,
+        attempt_history,
+        normalized_summary
+      )
+      SELECT id, app_id, event_kind, attempts, ?, ?, attempt_history, CAST(? AS JSON)
+      FROM wpp_webhook_event_raw
+      WHERE id = ?
+      ON DUPLICATE KEY UPDATE
+        attempts = VALUES(attempts),
+        last_error = VALUES(last_error),
+        error_stack = VALUES(error_stack),
+        attempt_history = VALUES(attempt_history),
+        normalized_summary = VALUES(normalized_summary),
+        status = 'PENDING',
+        dead_at = NOW(),
+        resolved_at = NULL
+    `;
+    await connection.query(sql, [
+      input.lastError,
+      input.errorStack,
+      input.normalizedSummary ? JSON.stringify(input.normalizedSummary) : null,
+      input.rawId,
+    ]);
+  }
+
+  async list(filter: DeadLetterFilter): Promise<DeadLetterRow[]> {
+    const { where, params } = this.buildWhere(filter);
+    const sql = `
+      SELECT ${DEAD_LETTER_COLUMNS}
+      FROM wpp_webhook_event_dead_letter
+      WHERE ${where}
+      ORDER BY dead_at DESC
+      LIMIT ?
+    `;
+    const [rows] = await this.mysqlService.getPool().query<DeadLetterRow[]>(sql, [...params, filter.limit]);
+    return rows;
+  }
+
+  async findById(id: number): Promise<DeadLetterRow | null> {
+    const [rows] = await this.mysqlService
+      .getPool()
+      .query<DeadLetterRow[]>(`SELECT ${DEAD_LETTER_COLUMNS} FROM wpp_webhook_event_dead_letter WHERE id = ? LIMIT 1`, [
+        id,
+      ]);
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async lockPending(
+    connection: PoolConnection,
+    filter: Omit<DeadLetterFilter, 'status'>,
+    ids: number[] | null,
+  ): Promise<DeadLetterIdRow[]> {
+    const { where, params } = this.buildWhere({ ...filter, status: 'PENDING' });
+    const idCondition = ids ? ' AND id IN (?)' : '';
+    const sql = `
+      SELECT id, raw_id
+      FROM wpp_webhook_event_dead_letter
+      WHERE ${where}${idCondition}
+      ORDER BY id ASC
+      LIMIT ?
+      FOR UPDATE
+    `;
+    const [rows] = await connection.query<DeadLetterIdRow[]>(sql, [...params, ...(ids ? [ids] : []), filter.limit]);
+    return rows;
+  }
+
+  async resolve(connection: PoolConnection, ids: number[], status: Exclude<DeadLetterStatus, 'PENDING'>): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+    const [result] = await connection.query<ResultSetHeader>(
+      'UPDATE wpp_webhook_event_dead_letter SET status = ?, resolved_at = NOW() WHERE id IN (?)',
+      [status, ids],
+    );
+    return result.affectedRows;
+  }
+
+  private buildWhere(filter: DeadLetterFilter): { where: string; params: unknown[] } {
+    const conditions = ['status = ?'];
+    const params: unknown[] = [filter.status];
+    if (filter.appId) {
+      conditions.push('app_id = ?');
+      params.push(filter.appId);
+    }
+    if (filter.eventKind) {
+      conditions.push('event_kind = ?');
+      params.push(filter.eventKind);
+    }
+    if (filter.errorContains) {
+      conditions.push('last_error LIKE ?');
+      params.push(`%${filter.errorContains.replace(/[\\%_]/g, (char) => `\\${char}`)}%`);
+    }
+    return { where: conditions.join(' AND '), params };
+  }
+}
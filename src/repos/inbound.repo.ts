@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { PoolConnection, ResultSetHeader } from 'mysql2/promise';
+import { MysqlService } from '../db/mysql.service';
+import { NormalizedInboundEvent } from '../normalizer/normalizer.types';
+
+@Injectable()
+export class InboundRepo {
+  constructor(private readonly mysqlService: MysqlService) {}
+
+  async insertInboundMessage(
+    connection: PoolConnection,
+    rawEventId: number,
+    companyId: number,
+    integrationId: number,
+    event: NormalizedInboundEvent,
+    senderPhone: string,
+    messageAt: Date,
+  ): Promise<{ inserted: boolean }> {
+    const sql = `
+      INSERT INTO wpp_inbound_message (
+        raw_event_id,
+        company_id,
+        integration_id,
+        provider_message_id,
+        sender_phone,
+        sender_name,
+        message_type,
+        text_body,
+        media_url,
+        latitude,
+        longitude,
+        context_message_id,
+        message_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE id = id
+    `;
+    const [result] = await connection.query<ResultSetHeader>(sql, [
+      rawEventId,
+      companyId,
+      integrationId,
+      event.messageId,
+      senderPhone,
+      event.senderName,
+      event.messageType,
+      event.text,
+      event.mediaUrl,
+      event.latitude,
+      event.longitude,
+      event.contextMessageId,
+      messageAt,
+    ]);
+    return { inserted: result.affectedRows === 1 };
+  }
+}
@@ -1,12 +1,31 @@
 import { Injectable } from '@nestjs/common';
 import { PoolConnection, RowDataPacket } from 'mysql2/promise';
 import { MysqlService } from '../db/mysql.service';
+import { NormalizedAccountEvent } from '../normalizer/normalizer.types';
 
 export interface IntegrationMapping extends RowDataPacket {
   id: number;
   company_id: number;
   gupshup_app_id: string;
   is_active: number;
+  default_country: string | null;
+}
+
+export type WebhookAuthMode = 'SECRET_HEADER' | 'HMAC_SHA256';
+
+export interface IntegrationWebhookAuth extends RowDataPacket {
+  id: number;
+  company_id: number;
+  webhook_auth_mode: WebhookAuthMode;
+  webhook_secret: string | null;
+  webhook_secret_previous: string | null;
+  webhook_secret_previous_expires_at: Date | null;
+  meta_app_secret: string | null;
+  meta_verify_token: string | null;
+}
+
+interface HealthCurrentRow extends RowDataPacket {
+  is_current: number;
 }
 
 @Injectable()
@@ -19,14 +38,126 @@ export class IntegrationRepo {
   ): Promise<IntegrationMapping | null> {
     const executor = connection ?? this.mysqlService.getPool();
     const sql = `
-      SELECT id, company_id, gupshup_app_id, is_active
+      SELECT id, company_id, gupshup_app_id, is_active, default_country
       FROM wpp_company_integration
-      WHERE gupshup_app_id = ?
+      WHERE (gupshup_app_id = ? OR meta_app_id = ?)
         AND is_active = 1
       LIMIT 1
     `;
 
-    const [rows] = await executor.query<IntegrationMapping[]>(sql, [appId]);
+    const [rows] = await executor.query<IntegrationMapping[]>(sql, [appId, appId]);
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async findActiveOrAutoDeactivatedByAppId(
+    appId: string,
+    connection: PoolConnection,
+  ): Promise<IntegrationMapping | null> {
+    const sql = `
+      SELECT i.id, i.company_id, i.gupshup_app_id, i.is_active, i.default_country
+      FROM wpp_company_integration i
+      LEFT JOIN wpp_company_integration_health h ON h.integration_id = i.id
+      WHERE (i.gupshup_app_id = ? OR i.meta_app_id = ?)
+        AND (i.is_active = 1 OR h.deactivated_at IS NOT NULL)
+      ORDER BY i.is_active DESC
+      LIMIT 1
+    `;
+
+    const [rows] = await connection.query<IntegrationMapping[]>(sql, [appId, appId]);
     return rows.length > 0 ? rows[0] : null;
   }
+
+  async findWebhookAuthByAppId(appId: string): Promise<IntegrationWebhookAuth | null> {
+    const sql = `
+      SELECT
+        i.id,
+        i.company_id,
+        i.webhook_auth_mode,
+        i.webhook_secret,
+        i.webhook_secret_previous,
+        i.webhook_secret_previous_expires_at,
+        i.meta_app_secret,
+        i.meta_verify_token
+      FROM wpp_company_integration i
+      LEFT JOIN wpp_company_integration_health h ON h.integration_id = i.id
+      WHERE (i.gupshup_app_id = ? OR i.meta_app_id = ?)
+        AND (i.is_active = 1 OR h.deactivated_at IS NOT NULL)
+      ORDER BY i.is_active DESC
+      LIMIT 1
+    `;
+
+    const [rows] = await this.mysqlService.getPool().query<IntegrationWebhookAuth[]>(sql, [appId, appId]);
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async upsertHealth(
+    connection: PoolConnection,
+    integration: IntegrationMapping,
+    event: NormalizedAccountEvent,
+    eventAt: Date,
+  ): Promise<boolean> {
+    const [current] = await connection.query<HealthCurrentRow[]>(
+      `SELECT last_event_at <= CAST(? AS DATETIME) AS is_current
+       FROM wpp_company_integration_health
+       WHERE integration_id = ?
+       FOR UPDATE`,
+      [eventAt, integration.id],
+    );
+
+    const sql = `
+      INSERT INTO wpp_company_integration_health (
+        integration_id,
+        company_id,
+        phone_number,
+        quality_rating,
+        messaging_tier,
+        number_status,
+        last_account_event,
+        last_reason,
+        last_event_at,
+        updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())
+      ON DUPLICATE KEY UPDATE
+        phone_number = COALESCE(VALUES(phone_number), phone_number),
+        quality_rating = IF(VALUES(last_event_at) >= last_event_at,
+          COALESCE(VALUES(quality_rating), quality_rating), quality_rating),
+        messaging_tier = IF(VALUES(last_event_at) >= last_event_at,
+          COALESCE(VALUES(messaging_tier), messaging_tier), messaging_tier),
+        number_status = IF(VALUES(last_event_at) >= last_event_at,
+          COALESCE(VALUES(number_status), number_status), number_status),
+        last_account_event = IF(VALUES(last_event_at) >= last_event_at, VALUES(last_account_event), last_account_event),
+        last_reason = IF(VALUES(last_event_at) >= last_event_at, VALUES(last_reason), last_reason),
+        last_event_at = GREATEST(last_event_at, VALUES(last_event_at)),
+        updated_at = NOW()
+    `;
+    await connection.query(sql, [
+      integration.id,
+      integration.company_id,
+      event.phoneNumber,
+      event.qualityRating,
+      event.messagingTier,
+      event.numberStatus,
+      event.accountEvent,
+      event.reason,
+      eventAt,
+    ]);
+    return current.length === 0 || Boolean(current[0].is_current);
+  }
+
+  async reactivate(connection: PoolConnection, integrationId: number): Promise<void> {
+    await connection.query('UPDATE wpp_company_integration SET is_active = 1 WHERE id = ?', [integrationId]);
+    await connection.query(
+      'UPDATE wpp_company_integration_health SET deactivated_at = NULL WHERE integration_id = ?',
+      [integrationId],
+    );
+  }
+
+  async deactivate(connection: PoolConnection, integrationId: number): Promise<void> {
+    await connection.query('UPDATE wpp_company_integration SET is_active = 0 WHERE id = ?', [integrationId]);
+    await connection.query(
+      'UPDATE wpp_company_integration_health SET deactivated_at = NOW() WHERE integration_id = ?',
+      [integrationId],
+    );
+  }
 }
@@ -0,0 +1,105 @@
+import { Injectable } from '@nestjs/common';
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { MysqlService } from '../db/mysql.service';
+import { EventKind } from '../normalizer/normalizer.types';
+import { PayloadShape } from '../webhook/payload-shape.util';
+
+export interface PayloadShapeReportFilter {
+  appId: string | null;
+  eventKind: EventKind | null;
+  since: Date;
+  limit: number;
+}
+
+export interface PayloadShapeStatsRow extends RowDataPacket {
+  app_id: string;
+  event_kind: EventKind;
+  payload_shape_hash: string;
+  seen_count: number;
+  first_seen_at: Date;
+  last_seen_at: Date;
+  unknown_count: number;
+  unrecognized_count: number;
+  example_raw_id: number;
+}
+
+export interface PayloadShapePathsRow extends RowDataPacket {
+  shape_hash: string;
+  shape_paths: unknown;
+}
+
+export interface PayloadShapeExampleRow extends RowDataPacket {
+  id: number;
+  payload_json: unknown;
+}
+
+@Injectable()
+export class PayloadShapeRepo {
+  constructor(private readonly mysqlService: MysqlService) {}
+
+  async registerShape(shape: PayloadShape, connection?: PoolConnection): Promise<void> {
+    const executor = connection ?? this.mysqlService.getPool();
+    const sql = `
+      INSERT INTO wpp_payload_shape (shape_hash, shape_paths, path_count)
+      VALUES (?, CAST(? AS JSON), ?)
+      ON DUPLICATE KEY UPDATE shape_hash = shape_hash
+    `;
+    await executor.query(sql, [shape.hash, JSON.stringify(shape.paths), shape.paths.length]);
+  }
+
+  async summarizeShapes(filter: PayloadShapeReportFilter): Promise<PayloadShapeStatsRow[]> {
+    const conditions = ['payload_shape_hash IS NOT NULL', 'received_at >= ?'];
+    const params: unknown[] = [filter.since];
+    if (filter.appId) {
+      conditions.push('app_id = ?');
+      params.push(filter.appId);
+    }
+    if (filter.eventKind) {
+      conditions.push('event_kind = ?');
+      params.push(filter.eventKind);
+    }
+    params.push(filter.limit);
+
+    const sql = `
+      SELECT
+        app_id,
+        event_kind,
+        payload_shape_hash,
+        COUNT(*) AS seen_count,
+        MIN(received_at) AS first_seen_at,
+        MAX(received_at) AS last_seen_at,
+        SUM(event_kind = 'UNKNOWN') AS unknown_count,
+        SUM(last_error = 'Unrecognized payload') AS unrecognized_count,
+        MIN(id) AS example_raw_id
+      FROM wpp_webhook_event_raw
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY app_id, event_kind, payload_shape_hash
+      ORDER BY seen_count DESC
+      LIMIT ?
+    `;
+    const [rows] = await this.mysqlService.getPool().query<PayloadShapeStatsRow[]>(sql, params);
+    return rows;
+  }
+
+  async findShapePaths(hashes: string[]): Promise<PayloadShapePathsRow[]> {
+    if (hashes.length === 0) {
+      return [];
+    }
+    const [rows] = await this.mysqlService
+      .getPool()
+      .query<PayloadShapePathsRow[]>('SELECT shape_hash, shape_paths FROM wpp_payload_shape WHERE shape_hash IN (?)', [
+        hashes,
+      ]);
+    return rows;
+  }
+
+  async findExamples(rawIds: number[]): Promise<PayloadShapeExampleRow[]> {
+    if (rawIds.length === 0) {
+      return [];
+    }
+    const [rows] = await this.mysqlService
+      .getPool()
+      .query<PayloadShapeExampleRow[]>('SELECT id, payload_json FROM wpp_webhook_event_raw WHERE id IN (?)', [rawIds]);
+    return rows;
+  }
+}
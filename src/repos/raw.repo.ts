@@ -1,10 +1,19 @@
 import { Injectable } from '@nestjs/common';
-import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
 import { MysqlService } from '../db/mysql.service';
-import { EventKind } from '../normalizer/normalizer.types';
+import { EventKind, NormalizationTrace } from '../normalizer/normalizer.types';
+
+export interface EnvelopeInsertInput {
+  appId: string;
+  eventCount: number;
+  receivedAt: Date | null;
+  payloadJson: unknown;
+  dedupeKey: string;
+}
 
 export interface RawEventInsertInput {
   appId: string;
+  envelopeId: number | null;
   eventKind: EventKind;
   providerEventId: string | null;
   messageId: string | null;
@@ -12,7 +21,13 @@ export interface RawEventInsertInput {
   templateName: string | null;
   templateProviderId: string | null;
   eventStatus: string | null;
+  orderingKey: string | null;
+  orderingHash: number;
+  eventAt: Date | null;
+  receivedAt: Date | null;
   payloadJson: unknown;
+  normalizationTrace: NormalizationTrace | null;
+  payloadShapeHash: string | null;
   dedupeKey: string;
 }
 
@@ -26,23 +41,106 @@ export interface RawEventRow extends RowDataPacket {
   template_name: string | null;
   template_provider_id: string | null;
   event_status: string | null;
+  ordering_key: string | null;
+  event_at: Date | null;
   received_at: Date;
   payload_json: unknown;
   processed: number;
   attempts: number;
+  next_attempt_at: Date | null;
+  parked_reason: string | null;
+  parked_at: Date | null;
+  park_count: number;
   last_error: string | null;
   processed_at: Date | null;
   dedupe_key: string;
 }
 
+export interface RawLane {
+  count: number;
+  index: number;
+}
+
+export interface RawBacklogStatsRow extends RowDataPacket {
+  unprocessed: number;
+  parked: number;
+  oldest_received_at: Date | null;
+  oldest_age_sec: number | null;
+}
+
+export interface RawParkedStatsRow extends RowDataPacket {
+  event_kind: EventKind;
+  parked_reason: string;
+  parked: number;
+  matched: number;
+  expired: number;
+  avg_match_delay_sec: number | null;
+  max_park_count: number;
+}
+
+export interface RawPayloadSampleRow extends RowDataPacket {
+  id: number;
+  app_id: string;
+  event_kind: EventKind;
+  payload_json: unknown;
+}
+
+const RAW_EVENT_COLUMNS = `
+  id,
+  app_id,
+  event_kind,
+  provider_event_id,
+  message_id,
+  whatsapp_message_id,
+  template_name,
+  template_provider_id,
+  event_status,
+  ordering_key,
+  event_at,
+  received_at,
+  payload_json,
+  processed,
+  attempts,
+  next_attempt_at,
+  parked_reason,
+  parked_at,
+  park_count,
+  last_error,
+  processed_at,
+  dedupe_key
+`;
+const ATTEMPT_HISTORY_ERROR_CHARS = 1000;
+const ATTEMPT_HISTORY_APPEND = "JSON_ARRAY_APPEND(COALESCE(attempt_history, JSON_ARRAY()), '$', CAST(? AS JSON))";
+
 @Injectable()
 export class RawRepo {
   constructor(private readonly mysqlService: MysqlService) {}
 
-  async insertRawEvent(input: RawEventInsertInput): Promise<{ inserted: boolean }> {
+  async insertEnvelope(input: EnvelopeInsertInput, connection?: PoolConnection): Promise<{ id: number }> {
+    const executor = connection ?? this.mysqlService.getPool();
+    const sql = `
+      INSERT INTO wpp_webhook_envelope (app_id, event_count, received_at, payload_json, dedupe_key)
+      VALUES (?, ?, COALESCE(?, CURRENT_TIMESTAMP), CAST(? AS JSON), ?)
+      ON DUPLICATE KEY UPDATE id = LAST_INSERT_ID(id)
+    `;
+
+    const [result] = await executor.query<ResultSetHeader>(sql, [
+      input.appId,
+      input.eventCount,
+      input.receivedAt,
+      JSON.stringify(input.payloadJson),
+      input.dedupeKey,
+    ]);
+
+    return { id: result.insertId };
+  }
+
+  async insertRawEvent(input: RawEventInsertInput, connection?: PoolConnection): Promise<{ inserted: boolean }> {
+    const executor = connection ?? this.mysqlService.getPool();
     const sql = `
       INSERT INTO wpp_webhook_event_raw (
         app_id,
+        envelope_id,
         event_kind,
         provider_event_id,
         message_id,
@@ -50,15 +148,22 @@ export class RawRepo {
         template_name,
         template_provider_id,
         event_status,
+        ordering_key,
+        ordering_hash,
+        event_at,
+        received_at,
         payload_json,
+        normalization_trace,
+        payload_shape_hash,
         dedupe_key
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, CAST(? AS JSON), ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP), CAST(? AS JSON), CAST(? AS JSON), ?, ?)
       ON DUPLICATE KEY UPDATE id = id
     `;
 
-    const [result] = await this.mysqlService.getPool().query<ResultSetHeader>(sql, [
+    const [result] = await executor.query<ResultSetHeader>(sql, [
       input.appId,
+      input.envelopeId,
       input.eventKind,
       input.providerEventId,
       input.messageId,
@@ -66,7 +171,13 @@ export class RawRepo {
       input.templateName,
       input.templateProviderId,
       input.eventStatus,
+      input.orderingKey,
+      input.orderingHash,
+      input.eventAt,
+      input.receivedAt,
       JSON.stringify(input.payloadJson),
+      input.normalizationTrace ? JSON.stringify(input.normalizationTrace) : null,
+      input.payloadShapeHash,
       input.dedupeKey,
     ]);
 
@@ -75,38 +186,142 @@ export class RawRepo {
     };
   }
 
-  async lockNextBatch(connection: import('mysql2/promise').PoolConnection, batchSize: number): Promise<RawEventRow[]> {
+  async getBacklogStats(): Promise<RawBacklogStatsRow> {
+    const sql = `
+      SELECT
+        COALESCE(SUM(parked_reason IS NULL), 0) AS unprocessed,
+        COALESCE(SUM(parked_reason IS NOT NULL), 0) AS parked,
+        MIN(CASE WHEN parked_reason IS NULL THEN received_at END) AS oldest_received_at,
+        TIMESTAMPDIFF(SECOND, MIN(CASE WHEN parked_reason IS NULL THEN received_at END), NOW()) AS oldest_age_sec
+      FROM wpp_webhook_event_raw
+      WHERE processed = 0
+    `;
+
+    const [rows] = await this.mysqlService.getPool().query<RawBacklogStatsRow[]>(sql);
+    return rows[0];
+  }
+
+  async summarizeParked(since: Date, appId: string | null): Promise<RawParkedStatsRow[]> {
     const sql = `
       SELECT
-        id,
-        app_id,
         event_kind,
-        provider_event_id,
-        message_id,
-        whatsapp_message_id,
-        template_name,
-        template_provider_id,
-        event_status,
-        received_at,
-        payload_json,
-        processed,
-        attempts,
-        last_error,
-        processed_at,
-        dedupe_key
+        parked_reason,
+        SUM(processed = 0) AS parked,
+        SUM(processed = 1 AND NOT (last_error <=> parked_reason)) AS matched,
+        SUM(processed = 1 AND last_error <=> parked_reason) AS expired,
+        AVG(
+          CASE
+            WHEN processed = 1 AND NOT (last_error <=> parked_reason)
+            THEN TIMESTAMPDIFF(SECOND, received_at, processed_at)
+          END
+        ) AS avg_match_delay_sec,
+        MAX(park_count) AS max_park_count
+      FROM wpp_webhook_event_raw
+      WHERE parked_reason IS NOT NULL
+        AND received_at >= ?
+        ${appId ? 'AND app_id = ?' : ''}
+      GROUP BY event_kind, parked_reason
+      ORDER BY event_kind, parked_reason
+    `;
+
+    const params = appId ? [since, appId] : [since];
+    const [rows] = await this.mysqlService.getPool().query<RawParkedStatsRow[]>(sql, params);
+    return rows;
+  }
+
+  async findRecentPayloads(appId: string | null, limit: number): Promise<RawPayloadSampleRow[]> {
+    const sql = `
+      SELECT id, app_id, event_kind, payload_json
       FROM wpp_webhook_event_raw
+      ${appId ? 'WHERE app_id = ?' : ''}
+      ORDER BY id DESC
+      LIMIT ?
+    `;
+
+    const params = appId ? [appId, limit] : [limit];
+    const [rows] = await this.mysqlService.getPool().query<RawPayloadSampleRow[]>(sql, params);
+    return rows;
+  }
+
+  async lockNextBatch(connection: PoolConnection, batchSize: number, lane: RawLane | null): Promise<RawEventRow[]> {
+    const sql = `
+      SELECT ${RAW_EVENT_COLUMNS}
+      FROM wpp_webhook_event_raw candidate
       WHERE processed = 0
+        AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+        ${lane ? 'AND MOD(COALESCE(ordering_hash, id), ?) = ?' : ''}
+        AND NOT EXISTS (
+          SELECT 1
+          FROM wpp_webhook_event_raw deferred
+          WHERE deferred.ordering_key = candidate.ordering_key
+            AND deferred.processed = 0
+            AND deferred.next_attempt_at > NOW()
+            AND (
+              COALESCE(deferred.event_at, deferred.received_at) < COALESCE(candidate.event_at, candidate.received_at)
+              OR (
+                COALESCE(deferred.event_at, deferred.received_at) = COALESCE(candidate.event_at, candidate.received_at)
+                AND deferred.id < candidate.id
+              )
+            )
+        )
       ORDER BY received_at ASC
       LIMIT ?
       FOR UPDATE SKIP LOCKED
     `;
 
-    const [rows] = await connection.query<RawEventRow[]>(sql, [batchSize]);
+    const params = lane ? [lane.count, lane.index, batchSize] : [batchSize];
+    const [rows] = await connection.query<RawEventRow[]>(sql, params);
+    return rows;
+  }
+
+  async findOrderBlockedIds(connection: PoolConnection, rows: RawEventRow[]): Promise<number[]> {
+    const ids = rows.filter((row) => row.ordering_key !== null).map((row) => row.id);
+    if (ids.length === 0) {
+      return [];
+    }
+    const batchIds = rows.map((row) => row.id);
+    const sql = `
+      SELECT locked.id
+      FROM wpp_webhook_event_raw locked
+      WHERE locked.id IN (?)
+        AND EXISTS (
+          SELECT 1
+          FROM wpp_webhook_event_raw earlier
+          WHERE earlier.ordering_key = locked.ordering_key
+            AND earlier.processed = 0
+            AND earlier.id NOT IN (?)
+            AND (
+              COALESCE(earlier.event_at, earlier.received_at) < COALESCE(locked.event_at, locked.received_at)
+              OR (
+                COALESCE(earlier.event_at, earlier.received_at) = COALESCE(locked.event_at, locked.received_at)
+                AND earlier.id < locked.id
+              )
+            )
+        )
+    `;
+    const [blocked] = await connection.query<Array<RowDataPacket & { id: number }>>(sql, [ids, batchIds]);
+    return blocked.map((row) => row.id);
+  }
+
+  async lockByIds(connection: PoolConnection, ids: number[]): Promise<RawEventRow[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const sql = `
+      SELECT ${RAW_EVENT_COLUMNS}
+      FROM wpp_webhook_event_raw
+      WHERE id IN (?)
+        AND processed = 0
+      ORDER BY received_at ASC
+      FOR UPDATE SKIP LOCKED
+    `;
+
+    const [rows] = await connection.query<RawEventRow[]>(sql, [ids]);
     return rows;
   }
 
   async markProcessed(
-    connection: import('mysql2/promise').PoolConnection,
+    connection: PoolConnection,
     id: number,
     lastError: string | null,
   ): Promise<void> {
@@ -121,22 +336,29 @@ export class RawRepo {
   }
 
   async markFailedAttempt(
-    connection: import('mysql2/promise').PoolConnection,
+    connection: PoolConnection,
     id: number,
     attempts: number,
     errorMessage: string,
-    finalize: boolean,
+    retryDelayMs: number | null,
   ): Promise<void> {
-    if (finalize) {
+    const historyEntry = {
+      attempt: attempts,
+      failedAt: new Date().toISOString(),
+      error: errorMessage.slice(0, ATTEMPT_HISTORY_ERROR_CHARS),
+      retryDelayMs,
+    };
+    if (retryDelayMs === null) {
       const finalizeSql = `
         UPDATE wpp_webhook_event_raw
         SET processed = 1,
             processed_at = NOW(),
             attempts = ?,
+            attempt_history = ${ATTEMPT_HISTORY_APPEND},
             last_error = ?
         WHERE id = ?
       `;
-      await connection.query(finalizeSql, [attempts, this.trimError(errorMessage), id]);
+      await connection.query(finalizeSql, [attempts, JSON.stringify(historyEntry), this.trimError(errorMessage), id]);
       return;
     }
 
@@ -144,10 +366,67 @@ export class RawRepo {
       UPDATE wpp_webhook_event_raw
       SET processed = 0,
           attempts = ?,
+          next_attempt_at = DATE_ADD(NOW(), INTERVAL ? SECOND),
+          attempt_history = ${ATTEMPT_HISTORY_APPEND},
+          last_error = ?
+      WHERE id = ?
+    `;
+    await connection.query(retrySql, [
+      attempts,
+      Math.ceil(retryDelayMs / 1000),
+      JSON.stringify(historyEntry),
+      this.trimError(errorMessage),
+      id,
+    ]);
+  }
+
+  async deferProcessing(connection: PoolConnection, id: number, delayMs: number, reason: string): Promise<void> {
+    const sql = `
+      UPDATE wpp_webhook_event_raw
+      SET next_attempt_at = DATE_ADD(NOW(), INTERVAL ? SECOND),
+          last_error = ?
+      WHERE id = ?
+    `;
+    await connection.query(sql, [Math.ceil(delayMs / 1000), this.trimError(reason), id]);
+  }
+
+  async park(connection: PoolConnection, id: number, delayMs: number, reason: string): Promise<void> {
+    const sql = `
+      UPDATE wpp_webhook_event_raw
+      SET next_attempt_at = DATE_ADD(NOW(), INTERVAL ? SECOND),
+          parked_reason = COALESCE(parked_reason, ?),
+          parked_at = COALESCE(parked_at, NOW()),
+          park_count = park_count + 1,
           last_error = ?
       WHERE id = ?
     `;
-    await connection.query(retrySql, [attempts, this.trimError(errorMessage), id]);
+    await connection.query(sql, [Math.ceil(delayMs / 1000), reason, this.trimError(reason), id]);
+  }
+
+  async requeue(connection: PoolConnection, ids: number[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+    const sql = `
+      UPDATE wpp_webhook_event_raw
+      SET processed = 0,
+          processed_at = NULL,
+          attempts = 0,
+          next_attempt_at = NULL,
+          last_error = NULL
+      WHERE id IN (?)
+    `;
+    const [result] = await connection.query<ResultSetHeader>(sql, [ids]);
+    return result.affectedRows;
+  }
+
+  async findPayloadById(id: number): Promise<unknown | null> {
+    const [rows] = await this.mysqlService
+      .getPool()
+      .query<RawPayloadSampleRow[]>('SELECT id, app_id, event_kind, payload_json FROM wpp_webhook_event_raw WHERE id = ?', [
+        id,
+      ]);
+    return rows.length > 0 ? this.parsePayloadJson(rows[0].payload_json) : null;
   }
 
   parsePayloadJson(payload: unknown): unknown {
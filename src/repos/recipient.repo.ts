@@ -1,9 +1,9 @@
 import { Injectable } from '@nestjs/common';
 import { PoolConnection, RowDataPacket } from 'mysql2/promise';
 import { MysqlService } from '../db/mysql.service';
-import { MessageStatus, NormalizedMessageEvent } from '../normalizer/normalizer.types';
+import { ErrorCategory, MessageStatus, NormalizedMessageEvent } from '../normalizer/normalizer.types';
 
-type RecipientStatus =
+export type RecipientStatus =
   | 'PENDING'
   | 'SKIPPED'
   | 'SUBMITTED'
@@ -22,9 +22,33 @@ interface RecipientRow extends RowDataPacket {
   sent_at: Date | null;
   reached_at: Date | null;
   failed_at: Date | null;
+  played_at: Date | null;
+  deleted_at: Date | null;
+  destination_mismatch_at: Date | null;
   last_event_at: Date | null;
 }
 
+type RecipientFlagColumn = 'played_at' | 'deleted_at' | 'destination_mismatch_at';
+
+export type MessageApplyOutcome = 'UPDATED' | 'NOOP' | 'NOT_FOUND' | 'HELD' | 'STALE';
+
+export interface MessageApplyResult {
+  outcome: MessageApplyOutcome;
+  recipientStatus: RecipientStatus | null;
+  lastEventAt: Date | null;
+}
+
+export interface MessageApplyOptions {
+  holdForPredecessors: boolean;
+}
+
+type MessageTransition = 'UPGRADE' | 'SAME' | 'FLAG' | 'IGNORE' | 'STALE';
+
+export interface CampaignFailureSummaryRow extends RowDataPacket {
+  last_error_category: ErrorCategory | null;
+  failed_recipients: number;
+}
+
 const STATUS_RANK: Record<RecipientStatus, number> = {
   PENDING: 0,
   SKIPPED: 0,
@@ -36,14 +60,33 @@ const STATUS_RANK: Record<RecipientStatus, number> = {
   FAILED: 5,
 };
 
-const TARGET_STATUS_BY_MESSAGE_EVENT: Record<MessageStatus, RecipientStatus> = {
+const TARGET_STATUS_BY_MESSAGE_EVENT: Record<MessageStatus, RecipientStatus | null> = {
+  enqueued: 'SUBMITTED',
+  pending: 'SUBMITTED',
   accepted: 'SUBMITTED',
+  sent_to_provider: 'SUBMITTED',
   sent: 'SENT',
   delivered: 'DELIVERED',
   read: 'READ',
+  played: 'READ',
+  deleted: null,
+  mismatch: null,
   failed: 'FAILED',
 };
 
+const FLAG_COLUMN_BY_MESSAGE_EVENT: Partial<Record<MessageStatus, RecipientFlagColumn>> = {
+  played: 'played_at',
+  deleted: 'deleted_at',
+  mismatch: 'destination_mismatch_at',
+};
+
+// Recipient timestamps are stored with second precision, so provider times within the
+// same second as the recorded event are never treated as stale.
+const STALE_EVENT_TOLERANCE_MS = 1000;
+
+const ACCEPTED_MESSAGE_EVENTS: MessageStatus[] = ['enqueued', 'pending', 'accepted', 'sent_to_provider'];
+const REACHED_MESSAGE_EVENTS: MessageStatus[] = ['delivered', 'read', 'played'];
+
 @Injectable()
 export class RecipientRepo {
   constructor(private readonly mysqlService: MysqlService) {}
@@ -51,30 +94,49 @@ export class RecipientRepo {
   async applyMessageEvent(
     connection: PoolConnection,
     event: NormalizedMessageEvent,
-  ): Promise<'UPDATED' | 'NOOP' | 'NOT_FOUND'> {
+    options: MessageApplyOptions,
+  ): Promise<MessageApplyResult> {
     if (!event.messageId && !event.whatsappMessageId) {
-      return 'NOT_FOUND';
+      return { outcome: 'NOT_FOUND', recipientStatus: null, lastEventAt: null };
     }
 
     const recipient = await this.findRecipient(connection, event.messageId, event.whatsappMessageId);
     if (!recipient) {
-      return 'NOT_FOUND';
+      return { outcome: 'NOT_FOUND', recipientStatus: null, lastEventAt: null };
     }
+    const result = (outcome: MessageApplyOutcome): MessageApplyResult => ({
+      outcome,
+      recipientStatus: recipient.status,
+      lastEventAt: recipient.last_event_at,
+    });
     if (!event.status) {
-      return 'NOOP';
+      return result('NOOP');
     }
 
     const eventAt = event.eventAt ?? new Date();
     const targetStatus = TARGET_STATUS_BY_MESSAGE_EVENT[event.status];
-    const transition = this.evaluateTransition(recipient.status, targetStatus, event.status);
+    if (options.holdForPredecessors && this.isMissingPredecessor(recipient.status, targetStatus)) {
+      return result('HELD');
+    }
+
+    const transition = this.evaluateTransition(recipient, targetStatus, event);
+    if (transition === 'STALE') {
+      return result('STALE');
+    }
+
+    const flagColumn = FLAG_COLUMN_BY_MESSAGE_EVENT[event.status] ?? null;
     if (transition === 'IGNORE') {
-      return 'NOOP';
+      if (!flagColumn || recipient[flagColumn]) {
+        return result('NOOP');
+      }
+      await connection.query(
+        `UPDATE wpp_campaign_recipient SET ${flagColumn} = ?, updated_at = NOW() WHERE id = ?`,
+        [eventAt, recipient.id],
+      );
+      return result('UPDATED');
     }
 
-    const nextStatus =
-      transition === 'UPGRADE' || (event.status === 'failed' && recipient.status !== 'FAILED')
-        ? targetStatus
-        : null;
+    const nextStatus = transition === 'UPGRADE' ? targetStatus : null;
 
     const updates: string[] = [];
     const params: unknown[] = [];
@@ -89,12 +151,17 @@ export class RecipientRepo {
       params.push(event.whatsappMessageId);
     }
 
-    if (transition === 'UPGRADE' && this.shouldSetLastEventAt(recipient.last_event_at, eventAt)) {
+    if (this.shouldSetLastEventAt(recipient.last_event_at, eventAt)) {
       updates.push('last_event_at = ?');
       params.push(eventAt);
     }
 
-    if (event.status === 'accepted' && !recipient.accepted_at) {
+    if (flagColumn && !recipient[flagColumn]) {
+      updates.push(`${flagColumn} = ?`);
+      params.push(eventAt);
+    }
+
+    if (ACCEPTED_MESSAGE_EVENTS.includes(event.status) && !recipient.accepted_at) {
       updates.push('accepted_at = ?');
       params.push(eventAt);
     }
@@ -104,12 +171,12 @@ export class RecipientRepo {
       params.push(eventAt);
     }
 
-    if ((event.status === 'delivered' || event.status === 'read') && !recipient.reached_at) {
+    if (REACHED_MESSAGE_EVENTS.includes(event.status) && !recipient.reached_at) {
       updates.push('reached_at = ?');
       params.push(eventAt);
     }
 
-    if (event.status === 'failed' && recipient.status !== 'READ') {
+    if (event.status === 'failed') {
       if (!recipient.failed_at) {
         updates.push('failed_at = ?');
         params.push(eventAt);
@@ -122,6 +189,10 @@ export class RecipientRepo {
         updates.push('last_error_reason = ?');
         params.push(event.errorReason);
       }
+      if (event.errorCategory) {
+        updates.push('last_error_category = ?');
+        params.push(event.errorCategory);
+      }
       if (event.errorPayload) {
         updates.push('error = CAST(? AS JSON)');
         params.push(JSON.stringify(event.errorPayload));
@@ -129,14 +200,36 @@ export class RecipientRepo {
     }
 
     if (updates.length === 0) {
-      return 'NOOP';
+      return result('NOOP');
     }
 
     updates.push('updated_at = NOW()');
     const sql = `UPDATE wpp_campaign_recipient SET ${updates.join(', ')} WHERE id = ?`;
     params.push(recipient.id);
     await connection.query(sql, params);
-    return 'UPDATED';
+    return result('UPDATED');
+  }
+
+  async countFailuresByCategory(campaignId: number): Promise<CampaignFailureSummaryRow[]> {
+    const sql = `
+      SELECT last_error_category, COUNT(*) AS failed_recipients
+      FROM wpp_campaign_recipient
+      WHERE campaign_id = ?
+        AND status = 'FAILED'
+      GROUP BY last_error_category
+      ORDER BY failed_recipients DESC
+    `;
+    const [rows] = await this.mysqlService.getPool().query<CampaignFailureSummaryRow[]>(sql, [campaignId]);
+    return rows;
+  }
+
+  async findRecipientId(
+    connection: PoolConnection,
+    messageId: string | null,
+    whatsappMessageId: string | null,
+  ): Promise<number | null> {
+    const recipient = await this.findRecipient(connection, messageId, whatsappMessageId);
+    return recipient?.id ?? null;
   }
 
   private async findRecipient(
@@ -154,6 +247,9 @@ export class RecipientRepo {
         sent_at,
         reached_at,
         failed_at,
+        played_at,
+        deleted_at,
+        destination_mismatch_at,
         last_event_at
       FROM wpp_campaign_recipient
     `;
@@ -182,22 +278,31 @@ export class RecipientRepo {
   }
 
   private evaluateTransition(
-    current: RecipientStatus,
-    target: RecipientStatus,
-    sourceStatus: MessageStatus,
-  ): 'UPGRADE' | 'SAME' | 'IGNORE' {
-    if (sourceStatus === 'failed') {
-      if (current === 'READ') {
-        return 'IGNORE';
-      }
+    recipient: RecipientRow,
+    target: RecipientStatus | null,
+    event: NormalizedMessageEvent,
+  ): MessageTransition {
+    const current = recipient.status;
+    if (!target) {
+      return 'FLAG';
+    }
+
+    if (event.status === 'failed') {
       if (current === 'FAILED') {
         return 'SAME';
       }
-      return 'UPGRADE';
+      if (this.isOlderThan(event.eventAt, recipient.last_event_at)) {
+        return 'STALE';
+      }
+      return current === 'READ' ? 'IGNORE' : 'UPGRADE';
     }
 
     if (current === 'FAILED') {
-      return 'IGNORE';
+      const reached = event.status !== null && REACHED_MESSAGE_EVENTS.includes(event.status);
+      if (reached && this.isOlderThan(recipient.failed_at, event.eventAt)) {
+        return 'UPGRADE';
+      }
+      return this.isOlderThan(event.eventAt, recipient.failed_at) ? 'STALE' : 'IGNORE';
     }
 
     if (STATUS_RANK[target] > STATUS_RANK[current]) {
@@ -208,7 +313,21 @@ export class RecipientRepo {
       return 'SAME';
     }
 
-    return 'IGNORE';
+    return this.isOlderThan(event.eventAt, recipient.last_event_at) ? 'STALE' : 'IGNORE';
+  }
+
+  private isMissingPredecessor(current: RecipientStatus, target: RecipientStatus | null): boolean {
+    if (!target || target === 'FAILED' || current === 'FAILED') {
+      return false;
+    }
+    return STATUS_RANK[target] >= STATUS_RANK.DELIVERED && STATUS_RANK[target] - STATUS_RANK[current] > 1;
+  }
+
+  private isOlderThan(candidate: Date | null, reference: Date | null): boolean {
+    if (!candidate || !reference) {
+      return false;
+    }
+    return candidate.getTime() + STALE_EVENT_TOLERANCE_MS <= reference.getTime();
   }
 
   private shouldSetLastEventAt(current: Date | null, candidate: Date): boolean {
@@ -1,7 +1,9 @@
 import { Injectable } from '@nestjs/common';
-import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
 import { MysqlService } from '../db/mysql.service';
-import { TemplateStatus } from '../normalizer/normalizer.types';
+import { TemplateQualityScore, TemplateStatus } from '../normalizer/normalizer.types';
+
+export type TemplateChangeType = 'STATUS' | 'CATEGORY' | 'QUALITY';
 
 interface TemplateRow extends RowDataPacket {
   id: number;
@@ -9,14 +11,29 @@ interface TemplateRow extends RowDataPacket {
   integration_id: number;
   name: string;
   language: string | null;
+  status: TemplateStatus | 'DRAFT';
+  category: string | null;
+  quality_score: TemplateQualityScore | null;
 }
 
 interface TemplateVersionRow extends RowDataPacket {
   id: number;
-  status: 'DRAFT' | 'SUBMITTED' | 'PENDING' | 'APPROVED' | 'REJECTED';
+  status: TemplateStatus | 'DRAFT';
   submitted_at: Date | null;
   approved_at: Date | null;
   rejected_at: Date | null;
+  paused_at: Date | null;
+  disabled_at: Date | null;
+}
+
+export interface TemplateChangeInput {
+  templateId: number;
+  rawEventId: number;
+  changeType: TemplateChangeType;
+  previousValue: string | null;
+  newValue: string;
+  reason: string | null;
+  eventAt: Date;
 }
 
 @Injectable()
@@ -29,7 +46,7 @@ export class TemplateRepo {
     providerTemplateId: string,
   ): Promise<TemplateRow | null> {
     const sql = `
-      SELECT id, company_id, integration_id, name, language
+      SELECT id, company_id, integration_id, name, language, status, category, quality_score
       FROM wpp_template
       WHERE integration_id = ?
         AND provider_template_id = ?
@@ -46,7 +63,7 @@ export class TemplateRepo {
     language: string | null,
   ): Promise<TemplateRow | null> {
     let sql = `
-      SELECT id, company_id, integration_id, name, language
+      SELECT id, company_id, integration_id, name, language, status, category, quality_score
       FROM wpp_template
       WHERE company_id = ?
         AND name = ?
@@ -69,22 +86,28 @@ export class TemplateRepo {
     status: TemplateStatus,
     rejectionReason: string | null,
     correctCategory: string | null,
-  ): Promise<void> {
+    eventAt: Date,
+  ): Promise<boolean> {
     const sql = `
       UPDATE wpp_template
       SET status = ?,
           rejection_reason = ?,
           correct_category = ?,
+          status_updated_at = ?,
           last_synced_at = NOW(),
           updated_at = NOW()
       WHERE id = ?
+        AND (status_updated_at IS NULL OR status_updated_at <= ?)
     `;
-    await connection.query(sql, [
+    const [result] = await connection.query<ResultSetHeader>(sql, [
       status,
       status === 'REJECTED' ? rejectionReason : null,
       status === 'REJECTED' ? correctCategory : null,
+      eventAt,
       templateId,
+      eventAt,
     ]);
+    return result.affectedRows > 0;
   }
 
   async updateLatestTemplateVersion(
@@ -95,7 +118,7 @@ export class TemplateRepo {
     eventAt: Date | null,
   ): Promise<void> {
     const fetchSql = `
-      SELECT id, status, submitted_at, approved_at, rejected_at
+      SELECT id, status, submitted_at, approved_at, rejected_at, paused_at, disabled_at
       FROM wpp_template_version
       WHERE template_id = ?
       ORDER BY version_no DESC
@@ -128,10 +151,111 @@ export class TemplateRepo {
       changeSet.push('rejection_reason = ?');
       params.push(rejectionReason);
     }
+    if (status === 'PAUSED' && !version.paused_at) {
+      changeSet.push('paused_at = ?');
+      params.push(timestamp);
+    }
+    if (status === 'DISABLED' && !version.disabled_at) {
+      changeSet.push('disabled_at = ?');
+      params.push(timestamp);
+    }
 
     changeSet.push('updated_at = NOW()');
     const updateSql = `UPDATE wpp_template_version SET ${changeSet.join(', ')} WHERE id = ?`;
     params.push(version.id);
     await connection.query(updateSql, params);
   }
+
+  async updateTemplateCategory(
+    connection: PoolConnection,
+    templateId: number,
+    category: string,
+    eventAt: Date,
+  ): Promise<boolean> {
+    const templateSql = `
+      UPDATE wpp_template
+      SET category = ?,
+          category_updated_at = ?,
+          last_synced_at = NOW(),
+          updated_at = NOW()
+      WHERE id = ?
+        AND (category_updated_at IS NULL OR category_updated_at <= ?)
+    `;
+    const [result] = await connection.query<ResultSetHeader>(templateSql, [category, eventAt, templateId, eventAt]);
+    if (result.affectedRows === 0) {
+      return false;
+    }
+
+    const versionSql = `
+      UPDATE wpp_template_version
+      SET category = ?,
+          updated_at = NOW()
+      WHERE template_id = ?
+      ORDER BY version_no DESC
+      LIMIT 1
+    `;
+    await connection.query(versionSql, [category, templateId]);
+    return true;
+  }
+
+  async updateTemplateQuality(
+    connection: PoolConnection,
+    templateId: number,
+    qualityScore: TemplateQualityScore,
+    eventAt: Date,
+  ): Promise<boolean> {
+    const templateSql = `
+      UPDATE wpp_template
+      SET quality_score = ?,
+          quality_updated_at = ?,
+          last_synced_at = NOW(),
+          updated_at = NOW()
+      WHERE id = ?
+        AND (quality_updated_at IS NULL OR quality_updated_at <= ?)
+    `;
+    const [result] = await connection.query<ResultSetHeader>(templateSql, [
+      qualityScore,
+      eventAt,
+      templateId,
+      eventAt,
+    ]);
+    if (result.affectedRows === 0) {
+      return false;
+    }
+
+    const versionSql = `
+      UPDATE wpp_template_version
+      SET quality_score = ?,
+          updated_at = NOW()
+      WHERE template_id = ?
+      ORDER BY version_no DESC
+      LIMIT 1
+    `;
+    await connection.query(versionSql, [qualityScore, templateId]);
+    return true;
+  }
+
+  async insertChangeHistory(connection: PoolConnection, input: TemplateChangeInput): Promise<void> {
+    const sql = `
+      INSERT INTO wpp_template_change_history (
+        template_id,
+        raw_event_id,
+        change_type,
+        previous_value,
+        new_value,
+        reason,
+        event_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+    await connection.query(sql, [
+      input.templateId,
+      input.rawEventId,
+      input.changeType,
+      input.previousValue,
+      input.newValue,
+      input.reason ? input.reason.slice(0, 512) : null,
+      input.eventAt,
+    ]);
+  }
 }
@@ -0,0 +1,336 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { AppConfigService } from '../config/app-config.service';
+import { isTransientDbError } from '../db/mysql-errors.util';
+import { StructuredLoggerService } from '../logging/structured-logger.service';
+import { WebhookService } from '../webhook/webhook.service';
+
+interface SpoolEntry {
+  v: 1;
+  appId: string;
+  spooledAt: string;
+  rawBody: string;
+  attempts?: number;
+  lastError?: string;
+}
+
+export interface SpoolStats {
+  enabled: boolean;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  oldestSpooledAt: string | null;
+  quarantined: number;
+}
+
+const ACTIVE_FILE = 'spool-active.ndjson';
+const QUARANTINE_FILE = 'spool-quarantine.ndjson';
+const SEGMENT_PATTERN = /^spool-\d+\.ndjson$/;
+
+@Injectable()
+export class SpoolService implements OnModuleInit, OnModuleDestroy {
+  private timer: NodeJS.Timeout | null = null;
+  private dir = '';
+  private currentDrain: Promise<void> | null = null;
+  private stopped = false;
+  private queue: Promise<unknown> = Promise.resolve();
+  private entries = 0;
+  private bytes = 0;
+  private oldestSpooledAt: Date | null = null;
+  private quarantined = 0;
+
+  constructor(
+    private readonly appConfigService: AppConfigService,
+    private readonly webhookService: WebhookService,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const { enabled, dir, drainIntervalMs } = this.appConfigService.spool;
+    if (!enabled) {
+      return;
+    }
+    if (!dir) {
+      throw new Error('WEBHOOK_SPOOL_DIR is required when WEBHOOK_SPOOL_ENABLED=true');
+    }
+
+    this.dir = dir;
+    await fs.mkdir(dir, { recursive: true });
+    await this.serialize(() => this.recount());
+    this.timer = setInterval(() => {
+      void this.safeDrain();
+    }, drainIntervalMs);
+    this.timer.unref();
+    this.logger.info('spool_started', { dir, drainIntervalMs, ...this.getStats() });
+    if (path.resolve(dir).startsWith(`${path.resolve(tmpdir())}${path.sep}`)) {
+      this.logger.warn('spool_dir_ephemeral', { dir });
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.currentDrain) {
+      this.logger.info('spool_drain_waiting', { ...this.getStats() });
+      await this.currentDrain;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.appConfigService.spool.enabled;
+  }
+
+  getStats(): SpoolStats {
+    return {
+      enabled: this.appConfigService.spool.enabled,
+      entries: this.entries,
+      bytes: this.bytes,
+      maxBytes: this.appConfigService.spool.maxBytes,
+      oldestSpooledAt: this.oldestSpooledAt?.toISOString() ?? null,
+      quarantined: this.quarantined,
+    };
+  }
+
+  async append(appId: string, rawBody: string): Promise<void> {
+    if (!this.isEnabled()) {
+      throw new Error('Spool disabled');
+    }
+
+    const spooledAt = new Date();
+    const entry: SpoolEntry = { v: 1, appId, spooledAt: spooledAt.toISOString(), rawBody };
+    const line = `${JSON.stringify(entry)}\n`;
+    const size = Buffer.byteLength(line, 'utf8');
+
+    await this.serialize(async () => {
+      if (this.bytes + size > this.appConfigService.spool.maxBytes) {
+        throw new Error('Spool size limit reached');
+      }
+      await this.appendLine(this.activePath(), line);
+      this.entries += 1;
+      this.bytes += size;
+      this.oldestSpooledAt = this.oldestSpooledAt ?? spooledAt;
+    });
+  }
+
+  private async safeDrain(): Promise<void> {
+    if (this.stopped || this.currentDrain || this.entries === 0) {
+      return;
+    }
+
+    this.currentDrain = this.drain()
+      .catch((error: unknown) => {
+        const reason = error instanceof Error ? error.message : 'unknown_error';
+        this.logger.error('spool_drain_failed', { reason, ...this.getStats() });
+      })
+      .finally(() => {
+        this.currentDrain = null;
+      });
+    await this.currentDrain;
+  }
+
+  private async drain(): Promise<void> {
+    await this.serialize(() => this.rotateActive());
+    const segments = await this.listSegments();
+    let replayed = 0;
+
+    for (const segment of segments) {
+      const result = await this.drainSegment(path.join(this.dir, segment));
+      replayed += result.replayed;
+      if (!result.completed) {
+        break;
+      }
+    }
+
+    if (replayed > 0) {
+      this.logger.info('spool_drained', { replayed, ...this.getStats() });
+    }
+  }
+
+  private async drainSegment(file: string): Promise<{ completed: boolean; replayed: number }> {
+    const content = await fs.readFile(file, 'utf8');
+    const lines = content.split('\n').filter((line) => line.length > 0);
+    const maxAgeMs = this.appConfigService.spool.maxAgeMs;
+    let replayed = 0;
+
+    for (let index = 0; index < lines.length; index += 1) {
+      if (this.stopped) {
+        await this.rewriteSegment(file, lines.slice(index));
+        this.logger.info('spool_drain_stopped', { replayed, remaining: this.entries });
+        return { completed: false, replayed };
+      }
+      const line = lines[index];
+      const entry = this.parseEntry(line);
+      const spooledAt = entry ? new Date(entry.spooledAt) : null;
+
+      if (!entry || !spooledAt || Number.isNaN(spooledAt.getTime())) {
+        this.logger.error('spool_entry_invalid', { file: path.basename(file), line: index });
+      } else if (Date.now() - spooledAt.getTime() > maxAgeMs) {
+        this.logger.error('spool_entry_expired', { appId: entry.appId, spooledAt: entry.spooledAt });
+      } else {
+        try {
+          await this.webhookService.ingest(entry.appId, entry.rawBody, spooledAt);
+          replayed += 1;
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'unknown_error';
+          if (isTransientDbError(error)) {
+            await this.rewriteSegment(file, lines.slice(index));
+            this.oldestSpooledAt = spooledAt;
+            this.logger.warn('spool_drain_paused', { reason, replayed, remaining: this.entries });
+            return { completed: false, replayed };
+          }
+          await this.setAside(entry, reason);
+        }
+      }
+
+      this.entries = Math.max(0, this.entries - 1);
+      this.bytes = Math.max(0, this.bytes - Buffer.byteLength(`${line}\n`, 'utf8'));
+    }
+
+    await fs.unlink(file);
+    if (this.entries === 0) {
+      this.oldestSpooledAt = null;
+    }
+    return { completed: true, replayed };
+  }
+
+  private async setAside(entry: SpoolEntry, reason: string): Promise<void> {
+    const attempts = (entry.attempts ?? 0) + 1;
+    const line = `${JSON.stringify({ ...entry, attempts, lastError: reason.slice(0, 500) })}\n`;
+    const meta = { appId: entry.appId, spooledAt: entry.spooledAt, attempts, reason };
+
+    if (attempts >= this.appConfigService.spool.maxAttempts) {
+      await this.serialize(() => this.appendLine(this.quarantinePath(), line));
+      this.quarantined += 1;
+      this.logger.error('spool_entry_quarantined', meta);
+      return;
+    }
+
+    await this.serialize(() => this.appendLine(this.activePath(), line));
+    this.entries += 1;
+    this.bytes += Buffer.byteLength(line, 'utf8');
+    this.logger.warn('spool_entry_requeued', meta);
+  }
+
+  private async appendLine(file: string, line: string): Promise<void> {
+    const handle = await fs.open(file, 'a');
+    try {
+      await handle.appendFile(line, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async rotateActive(): Promise<void> {
+    const activePath = this.activePath();
+    try {
+      const stat = await fs.stat(activePath);
+      if (stat.size === 0) {
+        return;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    await fs.rename(activePath, path.join(this.dir, `spool-${Date.now()}.ndjson`));
+  }
+
+  private async rewriteSegment(file: string, lines: string[]): Promise<void> {
+    const tempFile = `${file}.tmp`;
+    const handle = await fs.open(tempFile, 'w');
+    try {
+      await handle.writeFile(lines.map((line) => `${line}\n`).join(''), 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempFile, file);
+  }
+
+  private async recount(): Promise<void> {
+    const files = [...(await this.listSegments()), ACTIVE_FILE];
+    let entries = 0;
+    let bytes = 0;
+    let oldest: Date | null = null;
+
+    for (const file of files) {
+      let content: string;
+      try {
+        content = await fs.readFile(path.join(this.dir, file), 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          continue;
+        }
+        throw error;
+      }
+
+      for (const line of content.split('\n')) {
+        if (line.length === 0) {
+          continue;
+        }
+        entries += 1;
+        bytes += Buffer.byteLength(`${line}\n`, 'utf8');
+        const spooledAt = this.parseEntry(line)?.spooledAt;
+        const date = spooledAt ? new Date(spooledAt) : null;
+        if (date && !Number.isNaN(date.getTime()) && (!oldest || date < oldest)) {
+          oldest = date;
+        }
+      }
+    }
+
+    this.entries = entries;
+    this.bytes = bytes;
+    this.oldestSpooledAt = oldest;
+    this.quarantined = await this.countLines(this.quarantinePath());
+  }
+
+  private async countLines(file: string): Promise<number> {
+    try {
+      const content = await fs.readFile(file, 'utf8');
+      return content.split('\n').filter((line) => line.length > 0).length;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+  }
+
+  private async listSegments(): Promise<string[]> {
+    const files = await fs.readdir(this.dir);
+    return files.filter((file) => SEGMENT_PATTERN.test(file)).sort();
+  }
+
+  private parseEntry(line: string): SpoolEntry | null {
+    try {
+      const parsed = JSON.parse(line) as Partial<SpoolEntry>;
+      if (typeof parsed.appId !== 'string' || typeof parsed.rawBody !== 'string' || !parsed.spooledAt) {
+        return null;
+      }
+      return parsed as SpoolEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  private activePath(): string {
+    return path.join(this.dir, ACTIVE_FILE);
+  }
+
+  private quarantinePath(): string {
+    return path.join(this.dir, QUARANTINE_FILE);
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { NormalizedWebhookEvent } from '../normalizer/normalizer.types';
+
+export interface OrderingKey {
+  key: string | null;
+  hash: number;
+}
+
+export function computeOrderingKey(appId: string, event: NormalizedWebhookEvent, fallbackSeed: string): OrderingKey {
+  const key = orderingKeyFor(appId, event);
+  const digest = createHash('sha1')
+    .update(key ?? fallbackSeed)
+    .digest();
+  return { key, hash: digest.readUInt32BE(0) };
+}
+
+function orderingKeyFor(appId: string, event: NormalizedWebhookEvent): string | null {
+  switch (event.kind) {
+    case 'MESSAGE': {
+      const messageId = event.messageId ?? event.whatsappMessageId;
+      return messageId ? `MESSAGE:${messageId}`.slice(0, 191) : null;
+    }
+    case 'TEMPLATE': {
+      const templateId = event.templateProviderId ?? event.templateName;
+      return templateId ? `TEMPLATE:${appId}:${templateId}`.slice(0, 191) : null;
+    }
+    case 'USER': {
+      const digits = event.phone?.replace(/\D/g, '') ?? '';
+      return digits ? `USER:${appId}:${digits}`.slice(0, 191) : null;
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import { AppConfigService } from '../config/app-config.service';
+import { buildPayloadPreview } from '../logging/log-sanitizer.util';
+import { EventKind } from '../normalizer/normalizer.types';
+import { PayloadShapeRepo, PayloadShapeReportFilter } from '../repos/payload-shape.repo';
+import { RawRepo } from '../repos/raw.repo';
+import { computePayloadShape } from './payload-shape.util';
+
+export interface PayloadShapeReportItem {
+  appId: string;
+  eventKind: EventKind;
+  shapeHash: string;
+  paths: string[] | null;
+  count: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  unknownCount: number;
+  unrecognizedCount: number;
+  exampleRawId: number;
+  example: unknown;
+}
+
+const KNOWN_SHAPES_LIMIT = 5000;
+
+@Injectable()
+export class PayloadShapeService {
+  private readonly knownShapes = new Set<string>();
+
+  constructor(
+    private readonly appConfigService: AppConfigService,
+    private readonly payloadShapeRepo: PayloadShapeRepo,
+    private readonly rawRepo: RawRepo,
+  ) {}
+
+  async fingerprint(payload: unknown): Promise<string> {
+    const shape = computePayloadShape(payload);
+    if (!this.knownShapes.has(shape.hash)) {
+      await this.payloadShapeRepo.registerShape(shape);
+      if (this.knownShapes.size >= KNOWN_SHAPES_LIMIT) {
+        this.knownShapes.clear();
+      }
+      this.knownShapes.add(shape.hash);
+    }
+    return shape.hash;
+  }
+
+  async buildReport(filter: PayloadShapeReportFilter): Promise<PayloadShapeReportItem[]> {
+    const rows = await this.payloadShapeRepo.summarizeShapes(filter);
+    const [pathRows, exampleRows] = await Promise.all([
+      this.payloadShapeRepo.findShapePaths([...new Set(rows.map((row) => row.payload_shape_hash))]),
+      this.payloadShapeRepo.findExamples(rows.map((row) => Number(row.example_raw_id))),
+    ]);
+
+    const pathsByHash = new Map(
+      pathRows.map((row) => [row.shape_hash, this.rawRepo.parsePayloadJson(row.shape_paths) as string[]]),
+    );
+    const examplesById = new Map(exampleRows.map((row) => [Number(row.id), row.payload_json]));
+
+    return rows.map((row) => {
+      const exampleRawId = Number(row.example_raw_id);
+      const example = examplesById.has(exampleRawId)
+        ? buildPayloadPreview(
+            this.rawRepo.parsePayloadJson(examplesById.get(exampleRawId)),
+            this.appConfigService.webhookPayloadPreviewChars,
+          )
+        : null;
+      return {
+        appId: row.app_id,
+        eventKind: row.event_kind,
+        shapeHash: row.payload_shape_hash,
+        paths: pathsByHash.get(row.payload_shape_hash) ?? null,
+        count: Number(row.seen_count),
+        firstSeenAt: new Date(row.first_seen_at).toISOString(),
+        lastSeenAt: new Date(row.last_seen_at).toISOString(),
+        unknownCount: Number(row.unknown_count),
+        unrecognizedCount: Number(row.unrecognized_count),
+        exampleRawId,
+        example,
+      };
+    });
+  }
+}
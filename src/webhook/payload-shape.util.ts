@@ -0,0 +1,47 @@
+import { createHash } from 'crypto';
+
+export interface PayloadShape {
+  hash: string;
+  paths: string[];
+}
+
+const MAX_SHAPE_DEPTH = 12;
+const MAX_SHAPE_PATHS = 500;
+
+export function computePayloadShape(payload: unknown): PayloadShape {
+  const collected = new Set<string>();
+  collectShapePaths(payload, '', 0, collected);
+  const paths = [...collected].sort().slice(0, MAX_SHAPE_PATHS);
+  return {
+    hash: createHash('sha256').update(paths.join('\n')).digest('hex'),
+    paths,
+  };
+}
+
+function collectShapePaths(value: unknown, path: string, depth: number, paths: Set<string>): void {
+  const label = path || '$';
+  if (Array.isArray(value)) {
+    if (value.length === 0 || depth >= MAX_SHAPE_DEPTH) {
+      paths.add(`${label}:array`);
+      return;
+    }
+    for (const item of value) {
+      collectShapePaths(item, `${path}[]`, depth + 1, paths);
+    }
+    return;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0 || depth >= MAX_SHAPE_DEPTH) {
+      paths.add(`${label}:object`);
+      return;
+    }
+    for (const [key, child] of entries) {
+      collectShapePaths(child, path ? `${path}.${key}` : key, depth + 1, paths);
+    }
+    return;
+  }
+
+  paths.add(`${label}:${value === null ? 'null' : typeof value}`);
+}
@@ -1,42 +1,50 @@
 import {
   Controller,
+  ForbiddenException,
   Get,
+  Header,
   Headers,
   HttpCode,
   InternalServerErrorException,
   Param,
   Post,
+  Query,
   Req,
+  ServiceUnavailableException,
   UnauthorizedException,
 } from '@nestjs/common';
 import { FastifyRequest } from 'fastify';
+import { ShutdownService } from '../lifecycle/shutdown.service';
 import { StructuredLoggerService } from '../logging/structured-logger.service';
-import { WebhookService } from './webhook.service';
+import { SpoolService } from '../spool/spool.service';
+import { WebhookAuthResult, WebhookService } from './webhook.service';
 
 interface RawBodyRequest extends FastifyRequest {
   rawBody?: Buffer;
 }
 
+interface WebhookAck {
+  ok: true;
+  events: number;
+  spooled?: true;
+}
+
 @Controller()
 export class WebhookController {
   constructor(
     private readonly webhookService: WebhookService,
+    private readonly spoolService: SpoolService,
+    private readonly shutdownService: ShutdownService,
     private readonly logger: StructuredLoggerService,
   ) {}
 
-  @Get('health')
-  @HttpCode(200)
-  health(): string {
-    return 'ok';
-  }
-
   @Post('webhooks/gupshup/:appId/events')
   @HttpCode(200)
   async receiveGupshupWebhook(
     @Param('appId') appId: string,
     @Headers('x-gupshup-secret') secretHeader: string | string[] | undefined,
     @Req() request: RawBodyRequest,
-  ): Promise<{ ok: true }> {
+  ): Promise<WebhookAck> {
     const startedAt = Date.now();
     const contentType = this.headerToString(request.headers['content-type']) ?? 'unknown';
     const contentLength = this.parseContentLength(this.headerToString(request.headers['content-length']));
@@ -54,37 +62,172 @@ export class WebhookController {
       userAgent,
     });
 
+    this.rejectIfDraining(appId, 'gupshup', requestId);
+
     const secret = Array.isArray(secretHeader) ? secretHeader[0] : secretHeader ?? null;
-    if (!this.webhookService.validateSecret(secret)) {
-      this.logger.warn('webhook_secret_rejected', {
+    const rawBody = this.extractRawBody(request);
+    let authResult: WebhookAuthResult;
+    try {
+      authResult = await this.webhookService.authenticate(appId, {
+        secretHeader: secret,
+        signatureHeader: this.headerToString(request.headers['x-gupshup-signature']),
+        timestampHeader: this.headerToString(request.headers['x-gupshup-timestamp']),
+        rawBody,
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown_error';
+      this.logger.error('webhook_auth_lookup_failed', { appId, reason, requestId });
+      throw new InternalServerErrorException('Unable to authenticate webhook');
+    }
+    if (!authResult.valid) {
+      this.logger.warn('webhook_auth_rejected', {
         appId,
         ip: request.ip,
         requestId,
+        verificationMode: authResult.mode,
+        reason: authResult.reason,
+        checkedSlots: authResult.checkedSlots,
         providedSecretLength: secret?.length ?? 0,
       });
-      throw new UnauthorizedException('Invalid webhook secret');
+      throw new UnauthorizedException('Invalid webhook credentials');
+    }
+    if (authResult.matchedSlot === 'previous') {
+      this.logger.warn('webhook_secret_previous_slot_used', { appId, requestId, verificationMode: authResult.mode });
+    }
+
+    return this.ingestAndAcknowledge(appId, 'gupshup', rawBody, startedAt, requestId);
+  }
+
+  @Get('webhooks/meta/:appId/events')
+  @HttpCode(200)
+  @Header('Content-Type', 'text/plain')
+  async verifyMetaSubscription(
+    @Param('appId') appId: string,
+    @Query('hub.mode') mode: string | undefined,
+    @Query('hub.verify_token') verifyToken: string | undefined,
+    @Query('hub.challenge') challenge: string | undefined,
+  ): Promise<string> {
+    let verified: boolean;
+    try {
+      verified = await this.webhookService.verifyMetaSubscription(appId, mode ?? null, verifyToken ?? null);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown_error';
+      this.logger.error('meta_subscription_lookup_failed', { appId, reason });
+      throw new InternalServerErrorException('Unable to verify subscription');
+    }
+
+    if (!verified || !challenge) {
+      this.logger.warn('meta_subscription_rejected', { appId, mode: mode ?? null, hasChallenge: Boolean(challenge) });
+      throw new ForbiddenException('Invalid verify token');
     }
+    this.logger.info('meta_subscription_verified', { appId });
+    return challenge;
+  }
+
+  @Post('webhooks/meta/:appId/events')
+  @HttpCode(200)
+  async receiveMetaWebhook(
+    @Param('appId') appId: string,
+    @Headers('x-hub-signature-256') signatureHeader: string | string[] | undefined,
+    @Req() request: RawBodyRequest,
+  ): Promise<WebhookAck> {
+    const startedAt = Date.now();
+    const requestId = this.headerToString(request.headers['x-request-id']) ?? null;
+
+    this.logger.info('webhook_request_received', {
+      appId,
+      provider: 'meta',
+      path: request.url,
+      method: request.method,
+      ip: request.ip,
+      requestId,
+      contentType: this.headerToString(request.headers['content-type']) ?? 'unknown',
+      contentLength: this.parseContentLength(this.headerToString(request.headers['content-length'])),
+      userAgent: this.truncate(this.headerToString(request.headers['user-agent']), 180),
+    });
+
+    this.rejectIfDraining(appId, 'meta', requestId);
 
     const rawBody = this.extractRawBody(request);
+    let authResult: WebhookAuthResult;
+    try {
+      authResult = await this.webhookService.authenticateMeta(appId, this.headerToString(signatureHeader), rawBody);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown_error';
+      this.logger.error('webhook_auth_lookup_failed', { appId, provider: 'meta', reason, requestId });
+      throw new InternalServerErrorException('Unable to authenticate webhook');
+    }
+    if (!authResult.valid) {
+      this.logger.warn('webhook_auth_rejected', {
+        appId,
+        provider: 'meta',
+        ip: request.ip,
+        requestId,
+        verificationMode: authResult.mode,
+        reason: authResult.reason,
+        checkedSlots: authResult.checkedSlots,
+      });
+      throw new UnauthorizedException('Invalid webhook credentials');
+    }
+
+    return this.ingestAndAcknowledge(appId, 'meta', rawBody, startedAt, requestId);
+  }
+
+  private rejectIfDraining(appId: string, provider: 'gupshup' | 'meta', requestId: string | null): void {
+    if (!this.shutdownService.isDraining()) {
+      return;
+    }
+    this.logger.warn('webhook_rejected_draining', { appId, provider, requestId });
+    throw new ServiceUnavailableException('Instance is shutting down');
+  }
+
+  private async ingestAndAcknowledge(
+    appId: string,
+    provider: 'gupshup' | 'meta',
+    rawBody: string,
+    startedAt: number,
+    requestId: string | null,
+  ): Promise<WebhookAck> {
     try {
       const result = await this.webhookService.ingest(appId, rawBody);
       const latencyMs = Date.now() - startedAt;
       this.logger.info('webhook_acknowledged', {
         appId,
-        eventKind: result.eventKind,
-        inserted: result.inserted,
+        provider,
+        envelopeId: result.envelopeId,
+        eventCount: result.eventCount,
+        insertedCount: result.insertedCount,
+        eventKinds: result.events.map((event) => event.eventKind),
         payloadFormat: result.payloadFormat,
         topLevelKeys: result.topLevelKeys,
-        normalized: result.normalizedSummary,
-        dedupeKeyPrefix: result.dedupeKey.slice(0, 16),
+        normalized: result.events.slice(0, 10).map((event) => event.normalizedSummary),
+        dedupeKeyPrefixes: result.events.slice(0, 10).map((event) => event.dedupeKey.slice(0, 16)),
         latencyMs,
         requestId,
       });
-      return { ok: true };
+      return { ok: true, events: result.eventCount };
     } catch (error) {
       const reason = error instanceof Error ? error.message : 'unknown_error';
+      if (this.spoolService.isEnabled()) {
+        try {
+          await this.spoolService.append(appId, rawBody);
+          this.logger.warn('webhook_spooled', {
+            appId,
+            provider,
+            reason,
+            latencyMs: Date.now() - startedAt,
+            requestId,
+            spool: this.spoolService.getStats(),
+          });
+          return { ok: true, events: 0, spooled: true };
+        } catch (spoolError) {
+          const spoolReason = spoolError instanceof Error ? spoolError.message : 'unknown_error';
+          this.logger.error('webhook_spool_failed', { appId, provider, reason: spoolReason, requestId });
+        }
+      }
+
       const latencyMs = Date.now() - startedAt;
-      this.logger.error('webhook_ingest_failed', { appId, reason, latencyMs, requestId });
+      this.logger.error('webhook_ingest_failed', { appId, provider, reason, latencyMs, requestId });
       throw new InternalServerErrorException('Unable to ingest webhook');
     }
   }
@@ -1,37 +1,264 @@
-import { Injectable } from '@nestjs/common';
-import { createHash, timingSafeEqual } from 'crypto';
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
 import { AppConfigService } from '../config/app-config.service';
+import { MysqlService } from '../db/mysql.service';
 import { buildPayloadPreview, extractTopLevelKeys } from '../logging/log-sanitizer.util';
 import { StructuredLoggerService } from '../logging/structured-logger.service';
 import { NormalizerService } from '../normalizer/normalizer.service';
 import { EventKind, NormalizedWebhookEvent } from '../normalizer/normalizer.types';
+import { IntegrationRepo, IntegrationWebhookAuth, WebhookAuthMode } from '../repos/integration.repo';
 import { RawRepo } from '../repos/raw.repo';
+import { WorkerService } from '../worker/worker.service';
+import { computeOrderingKey } from './ordering-key.util';
+import { PayloadShapeService } from './payload-shape.service';
 
 type PayloadFormat = 'json' | 'text' | 'empty';
 
-export interface WebhookIngestResult {
+export type SecretSlot = 'current' | 'previous' | 'global';
+
+export interface WebhookAuthInput {
+  secretHeader: string | null;
+  signatureHeader: string | null;
+  timestampHeader: string | null;
+  rawBody: string;
+}
+
+export interface WebhookAuthResult {
+  valid: boolean;
+  mode: WebhookAuthMode;
+  matchedSlot: SecretSlot | null;
+  checkedSlots: SecretSlot[];
+  reason:
+    | 'matched'
+    | 'missing_header'
+    | 'no_secret_configured'
+    | 'mismatch'
+    | 'missing_timestamp'
+    | 'invalid_timestamp'
+    | 'timestamp_out_of_window';
+}
+
+interface SecretCandidate {
+  slot: SecretSlot;
+  secret: string;
+}
+
+interface LoadedIntegrationAuth {
+  integration: IntegrationWebhookAuth | null;
+  lookupFailed: boolean;
+}
+
+export interface WebhookIngestedEvent {
   inserted: boolean;
   dedupeKey: string;
   eventKind: EventKind;
+  normalizedSummary: Record<string, unknown>;
+}
+
+export interface WebhookIngestResult {
+  envelopeId: number | null;
+  eventCount: number;
+  insertedCount: number;
+  events: WebhookIngestedEvent[];
   payloadFormat: PayloadFormat;
   topLevelKeys: string[];
-  normalizedSummary: Record<string, unknown>;
 }
 
 @Injectable()
 export class WebhookService {
+  private readonly authCache = new Map<string, { value: IntegrationWebhookAuth | null; fetchedAt: number }>();
+
   constructor(
     private readonly appConfigService: AppConfigService,
+    private readonly mysqlService: MysqlService,
     private readonly rawRepo: RawRepo,
+    private readonly integrationRepo: IntegrationRepo,
     private readonly normalizerService: NormalizerService,
+    private readonly payloadShapeService: PayloadShapeService,
+    @Optional() @Inject(WorkerService) private readonly workerService: WorkerService | null,
     private readonly logger: StructuredLoggerService,
   ) {}
 
-  validateSecret(providedSecret: string | null): boolean {
-    if (!providedSecret) {
+  async authenticate(appId: string, input: WebhookAuthInput): Promise<WebhookAuthResult> {
+    const { mode, candidates, lookupFailed } = await this.resolveAuthConfig(appId);
+    const checkedSlots = candidates.map((candidate) => candidate.slot);
+    const reject = (reason: WebhookAuthResult['reason']): WebhookAuthResult => ({
+      valid: false,
+      mode,
+      matchedSlot: null,
+      checkedSlots,
+      reason,
+    });
+
+    if (candidates.length === 0) {
+      if (lookupFailed) {
+        throw new Error('Integration lookup unavailable and no global secret configured');
+      }
+      return reject('no_secret_configured');
+    }
+
+    let matches: (secret: string) => boolean;
+    if (mode === 'HMAC_SHA256') {
+      const signature = this.parseSignatureHeader(input.signatureHeader);
+      if (!signature) {
+        return reject('missing_header');
+      }
+      if (!input.timestampHeader && this.appConfigService.webhookHmacRequireTimestamp) {
+        return reject('missing_timestamp');
+      }
+      let signedMaterial = input.rawBody;
+      if (input.timestampHeader) {
+        const timestampCheck = this.checkSignatureTimestamp(input.timestampHeader);
+        if (timestampCheck) {
+          return reject(timestampCheck);
+        }
+        signedMaterial = `${input.timestampHeader.trim()}.${input.rawBody}`;
+      }
+      matches = (secret) =>
+        this.secretsMatch(createHmac('sha256', secret).update(signedMaterial, 'utf8').digest('hex'), signature);
+    } else {
+      const providedSecret = input.secretHeader;
+      if (!providedSecret) {
+        return reject('missing_header');
+      }
+      matches = (secret) => this.secretsMatch(secret, providedSecret);
+    }
+
+    for (const candidate of candidates) {
+      if (matches(candidate.secret)) {
+        return { valid: true, mode, matchedSlot: candidate.slot, checkedSlots, reason: 'matched' };
+      }
+    }
+    if (lookupFailed) {
+      throw new Error('Integration lookup unavailable and global secret did not match');
+    }
+    return reject('mismatch');
+  }
+
+  private async resolveAuthConfig(
+    appId: string,
+  ): Promise<{ mode: WebhookAuthMode; candidates: SecretCandidate[]; lookupFailed: boolean }> {
+    const candidates: SecretCandidate[] = [];
+    const { integration, lookupFailed } = await this.loadIntegrationAuth(appId);
+    const mode = integration?.webhook_auth_mode ?? 'SECRET_HEADER';
+
+    if (integration?.webhook_secret) {
+      candidates.push({ slot: 'current', secret: integration.webhook_secret });
+
+      const previousExpiresAt = integration.webhook_secret_previous_expires_at;
+      const previousActive = !previousExpiresAt || previousExpiresAt.getTime() > Date.now();
+      if (integration.webhook_secret_previous && previousActive) {
+        candidates.push({ slot: 'previous', secret: integration.webhook_secret_previous });
+      }
+      return { mode, candidates, lookupFailed };
+    }
+
+    if (this.appConfigService.gupshupWebhookSecret) {
+      candidates.push({ slot: 'global', secret: this.appConfigService.gupshupWebhookSecret });
+    }
+    return { mode, candidates, lookupFailed };
+  }
+
+  async verifyMetaSubscription(appId: string, mode: string | null, verifyToken: string | null): Promise<boolean> {
+    if (mode !== 'subscribe' || !verifyToken) {
       return false;
     }
-    const expected = Buffer.from(this.appConfigService.gupshupWebhookSecret, 'utf8');
+    const { integration, lookupFailed } = await this.loadIntegrationAuth(appId);
+    const expected = integration?.meta_verify_token ?? this.appConfigService.metaVerifyToken;
+    const verified = expected ? this.secretsMatch(expected, verifyToken) : false;
+    if (!verified && lookupFailed) {
+      throw new Error('Integration lookup unavailable and global verify token did not match');
+    }
+    return verified;
+  }
+
+  async authenticateMeta(appId: string, signatureHeader: string | null, rawBody: string): Promise<WebhookAuthResult> {
+    const { integration, lookupFailed } = await this.loadIntegrationAuth(appId);
+    const candidates: SecretCandidate[] = [];
+    if (integration?.meta_app_secret) {
+      candidates.push({ slot: 'current', secret: integration.meta_app_secret });
+    } else if (this.appConfigService.metaAppSecret) {
+      candidates.push({ slot: 'global', secret: this.appConfigService.metaAppSecret });
+    }
+
+    const checkedSlots = candidates.map((candidate) => candidate.slot);
+    const reject = (reason: WebhookAuthResult['reason']): WebhookAuthResult => ({
+      valid: false,
+      mode: 'HMAC_SHA256',
+      matchedSlot: null,
+      checkedSlots,
+      reason,
+    });
+
+    if (candidates.length === 0) {
+      if (lookupFailed) {
+        throw new Error('Integration lookup unavailable and no global secret configured');
+      }
+      return reject('no_secret_configured');
+    }
+    const signature = this.parseSignatureHeader(signatureHeader);
+    if (!signature) {
+      return reject('missing_header');
+    }
+
+    for (const candidate of candidates) {
+      const expected = createHmac('sha256', candidate.secret).update(rawBody, 'utf8').digest('hex');
+      if (this.secretsMatch(expected, signature)) {
+        return { valid: true, mode: 'HMAC_SHA256', matchedSlot: candidate.slot, checkedSlots, reason: 'matched' };
+      }
+    }
+    if (lookupFailed) {
+      throw new Error('Integration lookup unavailable and global secret did not match');
+    }
+    return reject('mismatch');
+  }
+
+  private async loadIntegrationAuth(appId: string): Promise<LoadedIntegrationAuth> {
+    const cached = this.authCache.get(appId);
+    if (cached && Date.now() - cached.fetchedAt < this.appConfigService.webhookAuthCacheTtlMs) {
+      return { integration: cached.value, lookupFailed: false };
+    }
+
+    try {
+      const integration = await this.integrationRepo.findWebhookAuthByAppId(appId);
+      this.authCache.set(appId, { value: integration, fetchedAt: Date.now() });
+      return { integration, lookupFailed: false };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown_error';
+      if (!cached) {
+        this.logger.warn('webhook_auth_global_fallback_used', { appId, reason });
+        return { integration: null, lookupFailed: true };
+      }
+      this.logger.warn('webhook_auth_stale_cache_used', { appId, reason, cachedAgeMs: Date.now() - cached.fetchedAt });
+      return { integration: cached.value, lookupFailed: false };
+    }
+  }
+
+  private parseSignatureHeader(header: string | null): string | null {
+    if (!header) {
+      return null;
+    }
+    const trimmed = header.trim();
+    const value = trimmed.toLowerCase().startsWith('sha256=') ? trimmed.slice(7) : trimmed;
+    return value.length > 0 ? value.toLowerCase() : null;
+  }
+
+  private checkSignatureTimestamp(header: string): 'invalid_timestamp' | 'timestamp_out_of_window' | null {
+    const trimmed = header.trim();
+    if (!/^\d+$/.test(trimmed)) {
+      return 'invalid_timestamp';
+    }
+    const value = Number(trimmed);
+    const timestampMs = value > 9999999999 ? value : value * 1000;
+    const toleranceMs = this.appConfigService.webhookSignatureToleranceSec * 1000;
+    if (Math.abs(Date.now() - timestampMs) > toleranceMs) {
+      return 'timestamp_out_of_window';
+    }
+    return null;
+  }
+
+  private secretsMatch(expectedSecret: string, providedSecret: string): boolean {
+    const expected = Buffer.from(expectedSecret, 'utf8');
     const provided = Buffer.from(providedSecret, 'utf8');
     if (expected.length !== provided.length) {
       return false;
@@ -39,57 +266,133 @@ export class WebhookService {
     return timingSafeEqual(expected, provided);
   }
 
-  async ingest(appId: string, rawBody: string): Promise<WebhookIngestResult> {
+  async ingest(appId: string, rawBody: string, receivedAt: Date | null = null): Promise<WebhookIngestResult> {
     const parsedPayload = this.parseRawBody(rawBody);
-    const normalized = this.normalizerService.normalize(parsedPayload.normalizedPayload);
-    const dedupeKey = this.buildDedupeKey(appId, normalized, rawBody);
     const topLevelKeys = extractTopLevelKeys(parsedPayload.normalizedPayload);
-    const normalizedSummary = this.buildNormalizedSummary(normalized);
     const payloadPreview = buildPayloadPreview(
       parsedPayload.payloadJson,
       this.appConfigService.webhookPayloadPreviewChars,
     );
 
-    const persisted = await this.rawRepo.insertRawEvent({
-      appId,
-      eventKind: normalized.kind,
-      providerEventId: normalized.providerEventId,
-      messageId: this.pickMessageId(normalized),
-      whatsappMessageId: this.pickWhatsappMessageId(normalized),
-      templateName: this.pickTemplateName(normalized),
-      templateProviderId: this.pickTemplateProviderId(normalized),
-      eventStatus: this.pickEventStatus(normalized),
-      payloadJson: parsedPayload.payloadJson,
-      dedupeKey,
-    });
+    const fragments =
+      parsedPayload.format === 'json' ? this.normalizerService.splitEvents(parsedPayload.normalizedPayload) : [];
+    const isBatch = fragments.length > 1;
+    const candidates = isBatch
+      ? fragments.map((fragment) => ({
+          normalizedPayload: fragment,
+          payloadJson: fragment,
+          dedupeMaterial: JSON.stringify(fragment),
+        }))
+      : [
+          {
+            normalizedPayload: parsedPayload.normalizedPayload,
+            payloadJson: parsedPayload.payloadJson,
+            dedupeMaterial: rawBody,
+          },
+        ];
+
+    const shapeHashes: string[] = [];
+    for (const candidate of candidates) {
+      shapeHashes.push(await this.payloadShapeService.fingerprint(candidate.payloadJson));
+    }
+
+    let envelopeId: number | null = null;
+    const events: WebhookIngestedEvent[] = [];
+    const connection = await this.mysqlService.getConnection();
+    try {
+      await connection.beginTransaction();
+      if (isBatch) {
+        const envelope = await this.rawRepo.insertEnvelope(
+          {
+            appId,
+            eventCount: candidates.length,
+            receivedAt,
+            payloadJson: parsedPayload.payloadJson,
+            dedupeKey: createHash('sha256').update(`${appId}|${rawBody}`).digest('hex'),
+          },
+          connection,
+        );
+        envelopeId = envelope.id;
+      }
+
+      for (const [index, candidate] of candidates.entries()) {
+        const { event: normalized, trace } = this.normalizerService.normalizeWithTrace(
+          candidate.normalizedPayload,
+          appId,
+        );
+        const dedupeKey = this.buildDedupeKey(appId, normalized, candidate.dedupeMaterial, trace.stage === 'meta');
+        const ordering = computeOrderingKey(appId, normalized, dedupeKey);
+        const persisted = await this.rawRepo.insertRawEvent(
+          {
+            appId,
+            envelopeId,
+            eventKind: normalized.kind,
+            providerEventId: normalized.providerEventId,
+            messageId: this.pickMessageId(normalized),
+            whatsappMessageId: this.pickWhatsappMessageId(normalized),
+            templateName: this.pickTemplateName(normalized),
+            templateProviderId: this.pickTemplateProviderId(normalized),
+            eventStatus: this.pickEventStatus(normalized),
+            orderingKey: ordering.key,
+            orderingHash: ordering.hash,
+            eventAt: normalized.eventAt,
+            receivedAt,
+            payloadJson: candidate.payloadJson,
+            normalizationTrace: trace,
+            payloadShapeHash: shapeHashes[index],
+            dedupeKey,
+          },
+          connection,
+        );
+        events.push({
+          inserted: persisted.inserted,
+          dedupeKey,
+          eventKind: normalized.kind,
+          normalizedSummary: this.buildNormalizedSummary(normalized),
+        });
+      }
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
 
+    const insertedCount = events.filter((event) => event.inserted).length;
+    if (insertedCount > 0) {
+      this.workerService?.wake();
+    }
     this.logPayloadShape('webhook_payload_observed', {
       appId,
-      inserted: persisted.inserted,
-      eventKind: normalized.kind,
-      dedupeKeyPrefix: dedupeKey.slice(0, 16),
+      envelopeId,
+      eventCount: events.length,
+      insertedCount,
       payloadFormat: parsedPayload.format,
       bodyBytes: Buffer.byteLength(rawBody, 'utf8'),
       topLevelKeys,
-      normalized: normalizedSummary,
+      normalized: events.slice(0, 10).map((event) => event.normalizedSummary),
       payloadPreview,
     });
 
-    if (!persisted.inserted) {
-      this.logger.info('webhook_duplicate_ignored', {
-        appId,
-        eventKind: normalized.kind,
-        dedupeKeyPrefix: dedupeKey.slice(0, 16),
-      });
+    for (const event of events) {
+      if (!event.inserted) {
+        this.logger.info('webhook_duplicate_ignored', {
+          appId,
+          envelopeId,
+          eventKind: event.eventKind,
+          dedupeKeyPrefix: event.dedupeKey.slice(0, 16),
+        });
+      }
     }
 
     return {
-      inserted: persisted.inserted,
-      dedupeKey,
-      eventKind: normalized.kind,
+      envelopeId,
+      eventCount: events.length,
+      insertedCount,
+      events,
       payloadFormat: parsedPayload.format,
       topLevelKeys,
-      normalizedSummary,
     };
   }
 
@@ -119,7 +422,12 @@ export class WebhookService {
     }
   }
 
-  private buildDedupeKey(appId: string, normalized: NormalizedWebhookEvent, rawBody: string): string {
+  private buildDedupeKey(
+    appId: string,
+    normalized: NormalizedWebhookEvent,
+    rawBody: string,
+    isMeta: boolean,
+  ): string {
     const providerEventId = normalized.providerEventId;
     const eventKind = normalized.kind;
 
@@ -127,11 +435,11 @@ export class WebhookService {
     if (providerEventId) {
       material = `${appId}|${eventKind}|${providerEventId}`;
     } else {
-      const messageId = this.pickMessageId(normalized);
+      const subjectId = this.pickDedupeSubject(normalized, isMeta);
       const eventStatus = this.pickEventStatus(normalized);
       const timestamp = normalized.eventAt ? normalized.eventAt.toISOString() : '';
-      if (messageId || eventStatus || timestamp) {
-        material = `${appId}|${eventKind}|${messageId ?? ''}|${eventStatus ?? ''}|${timestamp}`;
+      if (subjectId || eventStatus || timestamp) {
+        material = `${appId}|${eventKind}|${subjectId ?? ''}|${eventStatus ?? ''}|${timestamp}`;
       } else {
         material = rawBody;
       }
@@ -145,20 +453,64 @@ export class WebhookService {
       return normalized.status;
     }
     if (normalized.kind === 'TEMPLATE') {
-      return normalized.templateStatus;
+      if (normalized.templateStatus) {
+        return normalized.templateStatus;
+      }
+      if (normalized.newCategory) {
+        return `CATEGORY:${normalized.newCategory}`.slice(0, 40);
+      }
+      return normalized.qualityScore ? `QUALITY:${normalized.qualityScore}` : null;
     }
     if (normalized.kind === 'USER') {
       return normalized.consentEvent;
     }
+    if (normalized.kind === 'INBOUND') {
+      return normalized.messageType;
+    }
+    if (normalized.kind === 'BILLING') {
+      return normalized.category;
+    }
+    if (normalized.kind === 'ACCOUNT') {
+      return normalized.numberStatus ?? normalized.qualityRating ?? normalized.messagingTier;
+    }
+    return null;
+  }
+
+  private pickDedupeSubject(normalized: NormalizedWebhookEvent, isMeta: boolean): string | null {
+    if (!isMeta && (normalized.kind === 'MESSAGE' || normalized.kind === 'TEMPLATE' || normalized.kind === 'USER')) {
+      // Gupshup keys predate the Meta route; keep their material so provider retries still dedupe across deploys.
+      return this.pickMessageId(normalized);
+    }
+    if (normalized.kind === 'MESSAGE') {
+      return normalized.messageId ?? normalized.whatsappMessageId;
+    }
+    if (normalized.kind === 'TEMPLATE') {
+      return normalized.templateProviderId ?? normalized.templateName;
+    }
+    if (normalized.kind === 'USER') {
+      return normalized.phone;
+    }
+    if (normalized.kind === 'INBOUND') {
+      return normalized.messageId;
+    }
+    if (normalized.kind === 'BILLING') {
+      return normalized.conversationId ?? normalized.messageId ?? normalized.whatsappMessageId;
+    }
+    if (normalized.kind === 'ACCOUNT') {
+      return normalized.phoneNumber ?? normalized.accountEvent;
+    }
     return null;
   }
 
   private pickMessageId(normalized: NormalizedWebhookEvent): string | null {
-    return normalized.kind === 'MESSAGE' ? normalized.messageId : null;
+    if (normalized.kind === 'MESSAGE' || normalized.kind === 'INBOUND' || normalized.kind === 'BILLING') {
+      return normalized.messageId;
+    }
+    return null;
   }
 
   private pickWhatsappMessageId(normalized: NormalizedWebhookEvent): string | null {
-    return normalized.kind === 'MESSAGE' ? normalized.whatsappMessageId : null;
+    return normalized.kind === 'MESSAGE' || normalized.kind === 'BILLING' ? normalized.whatsappMessageId : null;
   }
 
   private pickTemplateName(normalized: NormalizedWebhookEvent): string | null {
@@ -180,6 +532,7 @@ export class WebhookService {
         eventAt: normalized.eventAt?.toISOString() ?? null,
         errorCode: normalized.errorCode,
         errorReason: normalized.errorReason,
+        errorCategory: normalized.errorCategory,
       };
     }
 
@@ -193,6 +546,9 @@ export class WebhookService {
         language: normalized.language,
         rejectionReason: normalized.rejectionReason,
         correctCategory: normalized.correctCategory,
+        previousCategory: normalized.previousCategory,
+        newCategory: normalized.newCategory,
+        qualityScore: normalized.qualityScore,
         eventAt: normalized.eventAt?.toISOString() ?? null,
       };
     }
@@ -207,6 +563,48 @@ export class WebhookService {
       };
     }
 
+    if (normalized.kind === 'INBOUND') {
+      return {
+        kind: normalized.kind,
+        providerEventId: normalized.providerEventId,
+        messageId: normalized.messageId,
+        senderPhone: StructuredLoggerService.maskPhone(normalized.senderPhone),
+        messageType: normalized.messageType,
+        hasText: Boolean(normalized.text),
+        hasMedia: Boolean(normalized.mediaUrl),
+        contextMessageId: normalized.contextMessageId,
+        eventAt: normalized.eventAt?.toISOString() ?? null,
+      };
+    }
+
+    if (normalized.kind === 'BILLING') {
+      return {
+        kind: normalized.kind,
+        providerEventId: normalized.providerEventId,
+        conversationId: normalized.conversationId,
+        messageId: normalized.messageId,
+        whatsappMessageId: normalized.whatsappMessageId,
+        category: normalized.category,
+        pricingModel: normalized.pricingModel,
+        billable: normalized.billable,
+        eventAt: normalized.eventAt?.toISOString() ?? null,
+      };
+    }
+
+    if (normalized.kind === 'ACCOUNT') {
+      return {
+        kind: normalized.kind,
+        providerEventId: normalized.providerEventId,
+        phoneNumber: StructuredLoggerService.maskPhone(normalized.phoneNumber),
+        accountEvent: normalized.accountEvent,
+        qualityRating: normalized.qualityRating,
+        messagingTier: normalized.messagingTier,
+        numberStatus: normalized.numberStatus,
+        reason: normalized.reason,
+        eventAt: normalized.eventAt?.toISOString() ?? null,
+      };
+    }
+
     return {
       kind: normalized.kind,
       providerEventId: normalized.providerEventId,
@@ -0,0 +1,22 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from './app.module';
+import { AppConfigService } from './config/app-config.service';
+import { StructuredLoggerService } from './logging/structured-logger.service';
+
+const KEEP_ALIVE_INTERVAL_MS = 60 * 60 * 1000;
+
+async function bootstrap(): Promise<void> {
+  const app = await NestFactory.createApplicationContext(AppModule.register({ runMode: 'worker', http: false }), {
+    logger: false,
+  });
+
+  app.enableShutdownHooks();
+  const config = app.get(AppConfigService);
+  const logger = app.get(StructuredLoggerService);
+
+  // Worker timers are unref'd so they never hold an HTTP process open; without a server this keeps the loop alive.
+  setInterval(() => undefined, KEEP_ALIVE_INTERVAL_MS);
+  logger.info('worker_process_started', { nodeEnv: config.nodeEnv, runMode: 'worker' });
+}
+
+void bootstrap();
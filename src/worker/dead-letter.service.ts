@@ -0,0 +1,83 @@
+import { Injectable } from '@nestjs/common';
+import { AppConfigService } from '../config/app-config.service';
+import { MysqlService } from '../db/mysql.service';
+import { buildPayloadPreview } from '../logging/log-sanitizer.util';
+import { StructuredLoggerService } from '../logging/structured-logger.service';
+import { DeadLetterFilter, DeadLetterRepo, DeadLetterRow } from '../repos/dead-letter.repo';
+import { RawRepo } from '../repos/raw.repo';
+
+export type DeadLetterAction = 'REQUEUED' | 'DISCARDED';
+
+export interface DeadLetterSelection {
+  filter: Omit<DeadLetterFilter, 'status'>;
+  ids: number[] | null;
+}
+
+export interface DeadLetterActionResult {
+  action: DeadLetterAction;
+  matched: number;
+  deadLetterIds: number[];
+  rawIds: number[];
+}
+
+export interface DeadLetterDetail {
+  deadLetter: DeadLetterRow;
+  payload: unknown;
+}
+
+@Injectable()
+export class DeadLetterService {
+  constructor(
+    private readonly appConfigService: AppConfigService,
+    private readonly mysqlService: MysqlService,
+    private readonly deadLetterRepo: DeadLetterRepo,
+    private readonly rawRepo: RawRepo,
+    private readonly logger: StructuredLoggerService,
+  ) {}
+
+  async list(filter: DeadLetterFilter): Promise<DeadLetterRow[]> {
+    return this.deadLetterRepo.list(filter);
+  }
+
+  async detail(id: number): Promise<DeadLetterDetail | null> {
+    const deadLetter = await this.deadLetterRepo.findById(id);
+    if (!deadLetter) {
+      return null;
+    }
+    const payload = await this.rawRepo.findPayloadById(deadLetter.raw_id);
+    return {
+      deadLetter,
+      payload: payload === null ? null : buildPayloadPreview(payload, this.appConfigService.webhookPayloadPreviewChars),
+    };
+  }
+
+  async apply(action: DeadLetterAction, selection: DeadLetterSelection): Promise<DeadLetterActionResult> {
+    const connection = await this.mysqlService.getConnection();
+    try {
+      await connection.beginTransaction();
+      const rows = await this.deadLetterRepo.lockPending(connection, selection.filter, selection.ids);
+      const deadLetterIds = rows.map((row) => row.id);
+      const rawIds = rows.map((row) => row.raw_id);
+      if (action === 'REQUEUED') {
+        await this.rawRepo.requeue(connection, rawIds);
+      }
+      await this.deadLetterRepo.resolve(connection, deadLetterIds, action);
+      await connection.commit();
+
+      this.logger.info('dead_letter_resolved', {
+        action,
+        matched: rows.length,
+        appId: selection.filter.appId,
+        eventKind: selection.filter.eventKind,
+        errorContains: selection.filter.errorContains,
+        rawIds: rawIds.slice(0, 20),
+      });
+      return { action, matched: rows.length, deadLetterIds, rawIds };
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+}
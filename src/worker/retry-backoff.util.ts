@@ -0,0 +1,8 @@
+import { RetryPolicy } from '../config/app-config.service';
+
+export function computeRetryDelayMs(policy: RetryPolicy, attempts: number, random: () => number = Math.random): number {
+  const exponent = Math.max(attempts - 1, 0);
+  const delay = Math.min(policy.baseDelayMs * 2 ** exponent, policy.maxDelayMs);
+  const jitter = delay * policy.jitterRatio * (random() * 2 - 1);
+  return Math.min(Math.max(Math.round(delay + jitter), 0), policy.maxDelayMs);
+}
@@ -1,27 +1,102 @@
 import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { PoolConnection } from 'mysql2/promise';
-import { AppConfigService } from '../config/app-config.service';
+import { AppConfigService, RetryPolicy } from '../config/app-config.service';
 import { MysqlService } from '../db/mysql.service';
 import { buildPayloadPreview, extractTopLevelKeys } from '../logging/log-sanitizer.util';
 import { StructuredLoggerService } from '../logging/structured-logger.service';
 import { NormalizerService } from '../normalizer/normalizer.service';
 import {
+  EventKind,
   MessageStatus,
+  NormalizedAccountEvent,
+  NormalizedBillingEvent,
+  NormalizedInboundEvent,
   NormalizedMessageEvent,
   NormalizedTemplateEvent,
   NormalizedUserEvent,
   NormalizedWebhookEvent,
+  TemplateStatus,
 } from '../normalizer/normalizer.types';
-import { ConsentRepo } from '../repos/consent.repo';
+import { buildPhoneLookup, PhoneLookup } from '../normalizer/phone.util';
+import { BillingRepo } from '../repos/billing.repo';
+import { ConsentRepo, UserCompanyScope } from '../repos/consent.repo';
+import { DeadLetterRepo } from '../repos/dead-letter.repo';
+import { InboundRepo } from '../repos/inbound.repo';
 import { IntegrationRepo } from '../repos/integration.repo';
-import { RawEventRow, RawRepo } from '../repos/raw.repo';
+import { RawEventRow, RawLane, RawRepo } from '../repos/raw.repo';
 import { RecipientRepo } from '../repos/recipient.repo';
-import { TemplateRepo } from '../repos/template.repo';
+import { TemplateChangeType, TemplateRepo } from '../repos/template.repo';
+import { computeRetryDelayMs } from './retry-backoff.util';
+
+const STACK_SUMMARY_LINES = 8;
+const ROW_SAVEPOINT = 'raw_row';
+const ER_LOCK_DEADLOCK = 1213;
+const MAX_BATCH_TRANSACTION_RETRIES = 3;
+
+const MESSAGE_STATUSES: MessageStatus[] = [
+  'enqueued',
+  'pending',
+  'accepted',
+  'sent_to_provider',
+  'sent',
+  'delivered',
+  'read',
+  'played',
+  'deleted',
+  'mismatch',
+  'failed',
+];
+
+interface LostRowTransaction {
+  row: RawEventRow;
+  error: unknown;
+  normalizedSummary: Record<string, unknown>;
+}
+
+interface RowOutcome {
+  blocksKey: boolean;
+  lost: LostRowTransaction | null;
+}
+
+interface LostBatchTransaction {
+  lost: LostRowTransaction;
+  batchIds: number[];
+}
+
+interface BatchOutcome {
+  locked: number;
+  attempted: number;
+  lost: LostBatchTransaction | null;
+}
+
+interface TickOutcome {
+  locked: number;
+  attempted: number;
+  full: boolean;
+}
+
+export interface WorkerTickStatus {
+  startedAt: string;
+  running: boolean;
+  lastTickAt: string | null;
+  lastSuccessfulTickAt: string | null;
+  lastTickError: string | null;
+  nextTickInMs: number;
+}
 
 @Injectable()
 export class WorkerService implements OnModuleInit, OnModuleDestroy {
   private timer: NodeJS.Timeout | null = null;
+  private currentTick: Promise<void> | null = null;
   private running = false;
+  private stopped = false;
+  private wakeRequested = false;
+  private idleDelayMs = 0;
+  private nextTickDelayMs = 0;
+  private readonly startedAt = new Date();
+  private lastTickAt: Date | null = null;
+  private lastSuccessfulTickAt: Date | null = null;
+  private lastTickError: string | null = null;
 
   constructor(
     private readonly appConfigService: AppConfigService,
@@ -32,24 +107,124 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
     private readonly recipientRepo: RecipientRepo,
     private readonly templateRepo: TemplateRepo,
     private readonly consentRepo: ConsentRepo,
+    private readonly inboundRepo: InboundRepo,
+    private readonly billingRepo: BillingRepo,
+    private readonly deadLetterRepo: DeadLetterRepo,
     private readonly logger: StructuredLoggerService,
   ) {}
 
   onModuleInit(): void {
-    const { intervalMs, batchSize } = this.appConfigService.worker;
-    this.timer = setInterval(() => {
-      void this.safeTick();
-    }, intervalMs);
-    this.timer.unref();
-    void this.safeTick();
-    this.logger.info('worker_started', { intervalMs, batchSize });
+    const {
+      intervalMs,
+      idleMaxIntervalMs,
+      wakeOnIngest,
+      batchSize,
+      concurrency,
+      messageHoldMs,
+      notFoundGraceMs,
+      retry,
+      retryByKind,
+    } = this.appConfigService.worker;
+    this.idleDelayMs = intervalMs;
+    this.scheduleTick(0);
+    this.logger.info('worker_started', {
+      intervalMs,
+      idleMaxIntervalMs,
+      wakeOnIngest,
+      batchSize,
+      concurrency,
+      messageHoldMs,
+      notFoundGraceMs,
+      retry,
+      retryByKind,
+    });
   }
 
-  onModuleDestroy(): void {
+  async onModuleDestroy(): Promise<void> {
+    this.stopped = true;
     if (this.timer) {
-      clearInterval(this.timer);
+      clearTimeout(this.timer);
       this.timer = null;
     }
+    if (!this.currentTick) {
+      this.logger.info('worker_stopped', { drained: true, waitedMs: 0 });
+      return;
+    }
+
+    const { drainTimeoutMs } = this.appConfigService.worker;
+    const startedAt = Date.now();
+    this.logger.info('worker_draining', { drainTimeoutMs });
+    let deadline: NodeJS.Timeout | null = null;
+    const drained = await Promise.race([
+      this.currentTick.then(() => true),
+      new Promise<boolean>((resolve) => {
+        deadline = setTimeout(() => resolve(false), drainTimeoutMs);
+      }),
+    ]);
+    if (deadline) {
+      clearTimeout(deadline);
+    }
+    const meta = { drained, waitedMs: Date.now() - startedAt };
+    if (drained) {
+      this.logger.info('worker_stopped', meta);
+    } else {
+      this.logger.warn('worker_drain_timeout', { ...meta, drainTimeoutMs });
+    }
+  }
+
+  wake(): void {
+    if (!this.appConfigService.worker.wakeOnIngest || this.stopped) {
+      return;
+    }
+    this.idleDelayMs = this.appConfigService.worker.intervalMs;
+    if (this.running) {
+      this.wakeRequested = true;
+      return;
+    }
+    this.scheduleTick(0);
+  }
+
+  getTickStatus(): WorkerTickStatus {
+    return {
+      startedAt: this.startedAt.toISOString(),
+      running: this.running,
+      lastTickAt: this.lastTickAt?.toISOString() ?? null,
+      lastSuccessfulTickAt: this.lastSuccessfulTickAt?.toISOString() ?? null,
+      lastTickError: this.lastTickError,
+      nextTickInMs: this.nextTickDelayMs,
+    };
+  }
+
+  private scheduleTick(delayMs: number): void {
+    if (this.stopped) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.nextTickDelayMs = delayMs;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.currentTick = this.safeTick().finally(() => {
+        this.currentTick = null;
+      });
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  private nextDelayAfter(outcome: TickOutcome | null): number {
+    const { intervalMs, idleMaxIntervalMs } = this.appConfigService.worker;
+    if (outcome && outcome.full && outcome.attempted > 0) {
+      this.idleDelayMs = intervalMs;
+      return 0;
+    }
+    if (outcome && outcome.locked > 0) {
+      this.idleDelayMs = intervalMs;
+      return intervalMs;
+    }
+    const delayMs = this.idleDelayMs;
+    this.idleDelayMs = Math.min(delayMs * 2, idleMaxIntervalMs);
+    return delayMs;
   }
 
   private async safeTick(): Promise<void> {
@@ -58,37 +233,147 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
     }
 
     this.running = true;
+    let outcome: TickOutcome | null = null;
     try {
-      await this.processBatch();
+      outcome = await this.processBatch();
+      this.lastSuccessfulTickAt = new Date();
+      this.lastTickError = null;
     } catch (error) {
       const reason = error instanceof Error ? error.message : 'unknown_error';
+      this.lastTickError = reason;
       this.logger.error('worker_tick_failed', { reason });
     } finally {
+      this.lastTickAt = new Date();
       this.running = false;
     }
+
+    const delayMs = this.nextDelayAfter(outcome);
+    this.scheduleTick(this.wakeRequested ? 0 : delayMs);
+    this.wakeRequested = false;
+  }
+
+  private async processBatch(): Promise<TickOutcome> {
+    const { concurrency } = this.appConfigService.worker;
+    if (concurrency === 1) {
+      return this.processLane(null);
+    }
+
+    const results = await Promise.allSettled(
+      Array.from({ length: concurrency }, (_, index) => this.processLane({ count: concurrency, index })),
+    );
+    const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (rejected) {
+      throw rejected.reason;
+    }
+    return results.reduce<TickOutcome>(
+      (total, result) =>
+        result.status === 'fulfilled'
+          ? {
+              locked: total.locked + result.value.locked,
+              attempted: total.attempted + result.value.attempted,
+              full: total.full || result.value.full,
+            }
+          : total,
+      { locked: 0, attempted: 0, full: false },
+    );
+  }
+
+  private async processLane(lane: RawLane | null): Promise<TickOutcome> {
+    const { batchSize } = this.appConfigService.worker;
+    let retryIds: number[] | null = null;
+    const tick: TickOutcome = { locked: 0, attempted: 0, full: false };
+    for (let pass = 0; pass <= MAX_BATCH_TRANSACTION_RETRIES; pass += 1) {
+      const outcome = await this.runBatchTransaction(lane, retryIds);
+      if (pass === 0) {
+        tick.locked = outcome.locked;
+        tick.full = outcome.locked >= batchSize;
+      }
+      tick.attempted += outcome.attempted;
+      if (!outcome.lost) {
+        return tick;
+      }
+
+      const { lost, batchIds } = outcome.lost;
+      await this.recordFailureInOwnTransaction(lost);
+      retryIds = batchIds.filter((id) => id !== lost.row.id);
+      if (retryIds.length === 0 || this.stopped) {
+        return tick;
+      }
+      this.logger.warn('worker_batch_transaction_lost', {
+        rawId: lost.row.id,
+        lane: lane?.index ?? null,
+        errorCode: this.errorCode(lost.error),
+        pass: pass + 1,
+        replaying: retryIds.length,
+      });
+    }
+    this.logger.warn('worker_batch_transaction_retries_exhausted', {
+      lane: lane?.index ?? null,
+      pending: retryIds?.length ?? 0,
+      maxRetries: MAX_BATCH_TRANSACTION_RETRIES,
+    });
+    return tick;
   }
 
-  private async processBatch(): Promise<void> {
+  private async runBatchTransaction(lane: RawLane | null, ids: number[] | null): Promise<BatchOutcome> {
     const connection = await this.mysqlService.getConnection();
     try {
       await connection.beginTransaction();
-      const rows = await this.rawRepo.lockNextBatch(connection, this.appConfigService.worker.batchSize);
-      if (rows.length === 0) {
+      const locked = ids
+        ? await this.rawRepo.lockByIds(connection, ids)
+        : await this.rawRepo.lockNextBatch(connection, this.appConfigService.worker.batchSize, lane);
+      if (locked.length === 0) {
         await connection.commit();
-        return;
+        return { locked: 0, attempted: 0, lost: null };
       }
+
+      const blockedIds = new Set(await this.rawRepo.findOrderBlockedIds(connection, locked));
+      const rows = locked.filter((row) => !blockedIds.has(row.id)).sort((left, right) => this.compareRows(left, right));
       this.logVerbose('worker_batch_locked', {
         count: rows.length,
+        lane: lane?.index ?? null,
         ids: rows.slice(0, 10).map((item) => item.id),
         kinds: this.countKinds(rows),
+        heldForOrder: blockedIds.size,
+        replay: ids !== null,
       });
 
+      const blockedKeys = new Set<string>();
+      let attempted = 0;
       for (const row of rows) {
-        await this.processSingleRow(connection, row);
+        if (this.stopped) {
+          break;
+        }
+        if (row.ordering_key && blockedKeys.has(row.ordering_key)) {
+          this.logVerbose('worker_row_held_for_order', {
+            rawId: row.id,
+            appId: row.app_id,
+            eventKind: row.event_kind,
+          });
+          continue;
+        }
+
+        const outcome = await this.processSingleRow(connection, row);
+        if (outcome.lost) {
+          await connection.rollback().catch(() => undefined);
+          return {
+            locked: locked.length,
+            attempted: 0,
+            lost: { lost: outcome.lost, batchIds: rows.map((item) => item.id) },
+          };
+        }
+        attempted += 1;
+        if (outcome.blocksKey && row.ordering_key) {
+          blockedKeys.add(row.ordering_key);
+        }
       }
 
       await connection.commit();
-      this.logVerbose('worker_batch_processed', { count: rows.length });
+      this.logVerbose('worker_batch_processed', {
+        count: rows.length,
+        messageStatuses: this.countMessageStatuses(rows),
+      });
+      return { locked: locked.length, attempted, lost: null };
     } catch (error) {
       await connection.rollback();
       throw error;
@@ -97,9 +382,9 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  private async processSingleRow(connection: PoolConnection, row: RawEventRow): Promise<void> {
+  private async processSingleRow(connection: PoolConnection, row: RawEventRow): Promise<RowOutcome> {
     const payload = this.rawRepo.parsePayloadJson(row.payload_json);
-    const normalized = this.normalizerService.normalize(payload);
+    const { event: normalized, trace } = this.normalizerService.normalizeWithTrace(payload, row.app_id);
     const normalizedSummary = this.summarizeNormalized(normalized);
     this.logVerbose('worker_event_processing_started', {
       rawId: row.id,
@@ -109,19 +394,31 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
       receivedAt: row.received_at,
       topLevelKeys: extractTopLevelKeys(payload),
       normalized: normalizedSummary,
+      normalizationTrace: trace,
       payloadPreview: buildPayloadPreview(payload, this.appConfigService.webhookPayloadPreviewChars),
     });
 
+    await connection.query(`SAVEPOINT ${ROW_SAVEPOINT}`);
     try {
+      let held = false;
       switch (row.event_kind) {
         case 'MESSAGE':
-          await this.processMessageEvent(connection, row, normalized.kind === 'MESSAGE' ? normalized : null);
+          held = await this.processMessageEvent(connection, row, normalized.kind === 'MESSAGE' ? normalized : null);
           break;
         case 'TEMPLATE':
-          await this.processTemplateEvent(connection, row, normalized.kind === 'TEMPLATE' ? normalized : null);
+          held = await this.processTemplateEvent(connection, row, normalized.kind === 'TEMPLATE' ? normalized : null);
           break;
         case 'USER':
-          await this.processUserEvent(connection, row, normalized.kind === 'USER' ? normalized : null);
+          held = await this.processUserEvent(connection, row, normalized.kind === 'USER' ? normalized : null);
+          break;
+        case 'INBOUND':
+          await this.processInboundEvent(connection, row, normalized.kind === 'INBOUND' ? normalized : null);
+          break;
+        case 'BILLING':
+          held = await this.processBillingEvent(connection, row, normalized.kind === 'BILLING' ? normalized : null);
+          break;
+        case 'ACCOUNT':
+          await this.processAccountEvent(connection, row, normalized.kind === 'ACCOUNT' ? normalized : null);
           break;
         default:
           this.logger.warn('worker_event_unrecognized_kind', {
@@ -131,28 +428,101 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
           await this.rawRepo.markProcessed(connection, row.id, 'Unrecognized payload');
           break;
       }
+      await connection.query(`RELEASE SAVEPOINT ${ROW_SAVEPOINT}`);
+      return { blocksKey: held, lost: null };
     } catch (error) {
-      const attempts = row.attempts + 1;
-      const finalize = attempts > this.appConfigService.worker.maxAttempts;
-      const reason = error instanceof Error ? error.message : 'unknown_error';
-      await this.rawRepo.markFailedAttempt(connection, row.id, attempts, reason, finalize);
-      this.logger.warn('worker_row_failed', {
+      if (this.isTransactionLost(error) || !(await this.rollbackToSavepoint(connection))) {
+        return { blocksKey: true, lost: { row, error, normalizedSummary } };
+      }
+      try {
+        await this.recordFailure(connection, row, error, normalizedSummary);
+      } catch (recordError) {
+        if (this.isTransactionLost(recordError)) {
+          return { blocksKey: true, lost: { row, error, normalizedSummary } };
+        }
+        throw recordError;
+      }
+      return { blocksKey: true, lost: null };
+    }
+  }
+
+  private compareRows(left: RawEventRow, right: RawEventRow): number {
+    const byEventTime =
+      new Date(left.event_at ?? left.received_at).getTime() - new Date(right.event_at ?? right.received_at).getTime();
+    return byEventTime !== 0 ? byEventTime : left.id - right.id;
+  }
+
+  private async rollbackToSavepoint(connection: PoolConnection): Promise<boolean> {
+    try {
+      await connection.query(`ROLLBACK TO SAVEPOINT ${ROW_SAVEPOINT}`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async recordFailureInOwnTransaction(lost: LostRowTransaction): Promise<void> {
+    const connection = await this.mysqlService.getConnection();
+    try {
+      await connection.beginTransaction();
+      await this.recordFailure(connection, lost.row, lost.error, lost.normalizedSummary);
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  private async recordFailure(
+    connection: PoolConnection,
+    row: RawEventRow,
+    error: unknown,
+    normalizedSummary: Record<string, unknown>,
+  ): Promise<void> {
+    const attempts = row.attempts + 1;
+    const policy = this.retryPolicyFor(row.event_kind);
+    const finalize = attempts >= policy.maxAttempts;
+    const retryDelayMs = finalize ? null : computeRetryDelayMs(policy, attempts);
+    const reason = error instanceof Error ? error.message : 'unknown_error';
+    await this.rawRepo.markFailedAttempt(connection, row.id, attempts, reason, retryDelayMs);
+    if (finalize) {
+      await this.deadLetterRepo.insertFromRaw(connection, {
         rawId: row.id,
-        appId: row.app_id,
-        eventKind: row.event_kind,
-        attempts,
-        finalized: finalize,
-        reason,
-        normalized: normalizedSummary,
+        lastError: reason,
+        errorStack: this.summarizeStack(error),
+        normalizedSummary,
       });
     }
+    this.logger.warn('worker_row_failed', {
+      rawId: row.id,
+      appId: row.app_id,
+      eventKind: row.event_kind,
+      attempts,
+      maxAttempts: policy.maxAttempts,
+      finalized: finalize,
+      retryDelayMs,
+      errorCode: this.errorCode(error),
+      reason,
+      normalized: normalizedSummary,
+    });
+  }
+
+  private isTransactionLost(error: unknown): boolean {
+    return (error as { errno?: number } | null)?.errno === ER_LOCK_DEADLOCK;
+  }
+
+  private errorCode(error: unknown): string | null {
+    const code = (error as { code?: unknown } | null)?.code;
+    return typeof code === 'string' ? code : null;
   }
 
   private async processMessageEvent(
     connection: PoolConnection,
     row: RawEventRow,
     normalizedEvent: NormalizedMessageEvent | null,
-  ): Promise<void> {
+  ): Promise<boolean> {
     const messageStatus = normalizedEvent?.status ?? this.parseMessageStatus(row.event_status);
     const event: NormalizedMessageEvent = {
       kind: 'MESSAGE',
@@ -160,9 +530,10 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
       messageId: normalizedEvent?.messageId ?? row.message_id,
       whatsappMessageId: normalizedEvent?.whatsappMessageId ?? row.whatsapp_message_id,
       status: messageStatus,
-      eventAt: normalizedEvent?.eventAt ?? null,
+      eventAt: normalizedEvent?.eventAt ?? row.event_at,
       errorCode: normalizedEvent?.errorCode ?? null,
       errorReason: normalizedEvent?.errorReason ?? null,
+      errorCategory: normalizedEvent?.errorCategory ?? null,
       errorPayload: normalizedEvent?.errorPayload ?? null,
     };
 
@@ -175,7 +546,7 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
         eventStatus: row.event_status,
       });
       await this.rawRepo.markProcessed(connection, row.id, 'Unrecognized payload');
-      return;
+      return false;
     }
 
     this.logVerbose('worker_message_normalized', {
@@ -188,18 +559,50 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
       eventAt: event.eventAt?.toISOString() ?? null,
       errorCode: event.errorCode,
       errorReason: event.errorReason,
+      errorCategory: event.errorCategory,
     });
 
-    const result = await this.recipientRepo.applyMessageEvent(connection, event);
-    if (result === 'NOT_FOUND') {
-      this.logger.warn('worker_message_recipient_not_found', {
+    const holdRemainingMs = this.messageHoldRemainingMs(row);
+    const result = await this.recipientRepo.applyMessageEvent(connection, event, {
+      holdForPredecessors: holdRemainingMs > 0,
+    });
+    if (result.outcome === 'NOT_FOUND') {
+      this.logVerbose('worker_message_recipient_not_found', {
         rawId: row.id,
         appId: row.app_id,
         messageId: event.messageId,
         whatsappMessageId: event.whatsappMessageId,
       });
-      await this.rawRepo.markProcessed(connection, row.id, 'Recipient not found');
-      return;
+      return (await this.parkOrFinalize(connection, row, 'Recipient not found')) === 'PARKED';
+    }
+
+    if (result.outcome === 'HELD') {
+      await this.rawRepo.deferProcessing(connection, row.id, holdRemainingMs, 'Held for earlier message status');
+      this.logVerbose('worker_message_held', {
+        rawId: row.id,
+        appId: row.app_id,
+        messageId: event.messageId,
+        status: event.status,
+        recipientStatus: result.recipientStatus,
+        holdMs: holdRemainingMs,
+      });
+      return true;
+    }
+    this.logParkedMatch(row);
+
+    if (result.outcome === 'STALE') {
+      await this.rawRepo.markProcessed(connection, row.id, `Stale ${event.status} event discarded`);
+      this.logger.info('worker_message_stale_discarded', {
+        rawId: row.id,
+        appId: row.app_id,
+        messageId: event.messageId,
+        whatsappMessageId: event.whatsappMessageId,
+        status: event.status,
+        eventAt: event.eventAt?.toISOString() ?? null,
+        recipientStatus: result.recipientStatus,
+        recipientLastEventAt: result.lastEventAt?.toISOString() ?? null,
+      });
+      return false;
     }
 
     this.logVerbose('worker_message_applied', {
@@ -208,17 +611,78 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
       messageId: event.messageId,
       whatsappMessageId: event.whatsappMessageId,
       status: event.status,
-      applyResult: result,
+      applyResult: result.outcome,
+      recipientStatus: result.recipientStatus,
     });
 
     await this.rawRepo.markProcessed(connection, row.id, null);
+    return false;
+  }
+
+  private async parkOrFinalize(
+    connection: PoolConnection,
+    row: RawEventRow,
+    reason: string,
+  ): Promise<'PARKED' | 'EXPIRED'> {
+    const { notFoundGraceMs, notFoundRecheckMs } = this.appConfigService.worker;
+    const graceRemainingMs = this.notFoundGraceRemainingMs(row);
+    if (graceRemainingMs > 0) {
+      const recheckMs = Math.min(notFoundRecheckMs, graceRemainingMs);
+      await this.rawRepo.park(connection, row.id, recheckMs, reason);
+      this.logVerbose('worker_row_parked', {
+        rawId: row.id,
+        appId: row.app_id,
+        eventKind: row.event_kind,
+        reason,
+        parkCount: row.park_count + 1,
+        recheckMs,
+      });
+      return 'PARKED';
+    }
+
+    await this.rawRepo.markProcessed(connection, row.id, reason);
+    this.logger.warn('worker_row_not_found_expired', {
+      rawId: row.id,
+      appId: row.app_id,
+      eventKind: row.event_kind,
+      reason,
+      parkCount: row.park_count,
+      graceMs: notFoundGraceMs,
+    });
+    return 'EXPIRED';
+  }
+
+  private notFoundGraceRemainingMs(row: RawEventRow): number {
+    return new Date(row.received_at).getTime() + this.appConfigService.worker.notFoundGraceMs - Date.now();
+  }
+
+  private logParkedMatch(row: RawEventRow): void {
+    if (!row.parked_at) {
+      return;
+    }
+    this.logger.info('worker_parked_row_matched', {
+      rawId: row.id,
+      appId: row.app_id,
+      eventKind: row.event_kind,
+      reason: row.parked_reason,
+      parkCount: row.park_count,
+      waitedSec: Math.round((Date.now() - new Date(row.received_at).getTime()) / 1000),
+    });
+  }
+
+  private messageHoldRemainingMs(row: RawEventRow): number {
+    const { messageHoldMs } = this.appConfigService.worker;
+    if (messageHoldMs === 0) {
+      return 0;
+    }
+    return Math.max(0, new Date(row.received_at).getTime() + messageHoldMs - Date.now());
   }
 
   private async processTemplateEvent(
     connection: PoolConnection,
     row: RawEventRow,
     normalizedEvent: NormalizedTemplateEvent | null,
-  ): Promise<void> {
+  ): Promise<boolean> {
     const integration = await this.integrationRepo.findActiveByAppId(row.app_id, connection);
     if (!integration) {
       this.logger.warn('worker_template_integration_not_found', {
@@ -226,7 +690,7 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
         appId: row.app_id,
       });
       await this.rawRepo.markProcessed(connection, row.id, 'Integration not found for appId');
-      return;
+      return false;
     }
 
     const templateStatus = normalizedEvent?.templateStatus ?? this.parseTemplateStatus(row.event_status);
@@ -239,10 +703,13 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
       language: normalizedEvent?.language ?? null,
       rejectionReason: normalizedEvent?.rejectionReason ?? null,
       correctCategory: normalizedEvent?.correctCategory ?? null,
+      previousCategory: normalizedEvent?.previousCategory ?? null,
+      newCategory: normalizedEvent?.newCategory ?? null,
+      qualityScore: normalizedEvent?.qualityScore ?? null,
       eventAt: normalizedEvent?.eventAt ?? null,
     };
 
-    if (!event.templateStatus) {
+    if (!event.templateStatus && !event.newCategory && !event.qualityScore) {
       this.logger.warn('worker_template_unrecognized_payload', {
         rawId: row.id,
         appId: row.app_id,
@@ -251,7 +718,7 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
         eventStatus: row.event_status,
       });
       await this.rawRepo.markProcessed(connection, row.id, 'Unrecognized payload');
-      return;
+      return false;
     }
 
     this.logVerbose('worker_template_normalized', {
@@ -262,6 +729,8 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
       templateName: event.templateName,
       templateProviderId: event.templateProviderId,
       status: event.templateStatus,
+      newCategory: event.newCategory,
+      qualityScore: event.qualityScore,
       language: event.language,
       eventAt: event.eventAt?.toISOString() ?? null,
     });
@@ -285,7 +754,7 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
     }
 
     if (!template) {
-      this.logger.warn('worker_template_not_found', {
+      this.logVerbose('worker_template_not_found', {
         rawId: row.id,
         appId: row.app_id,
         integrationId: integration.id,
@@ -293,41 +762,113 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
         templateName: event.templateName,
         templateProviderId: event.templateProviderId,
       });
-      await this.rawRepo.markProcessed(connection, row.id, 'Template not found');
-      return;
+      return (await this.parkOrFinalize(connection, row, 'Template not found')) === 'PARKED';
+    }
+    this.logParkedMatch(row);
+
+    const eventAt = event.eventAt ?? new Date();
+    const skipped: TemplateChangeType[] = [];
+    if (event.templateStatus) {
+      const applied = await this.templateRepo.updateTemplateStatus(
+        connection,
+        template.id,
+        event.templateStatus,
+        event.rejectionReason,
+        event.correctCategory,
+        eventAt,
+      );
+      if (!applied) {
+        skipped.push('STATUS');
+      } else {
+        await this.templateRepo.updateLatestTemplateVersion(
+          connection,
+          template.id,
+          event.templateStatus,
+          event.rejectionReason,
+          event.eventAt,
+        );
+        if (event.templateStatus !== template.status) {
+          await this.templateRepo.insertChangeHistory(connection, {
+            templateId: template.id,
+            rawEventId: row.id,
+            changeType: 'STATUS',
+            previousValue: template.status,
+            newValue: event.templateStatus,
+            reason: event.rejectionReason,
+            eventAt,
+          });
+        }
+      }
+    }
+
+    if (event.newCategory) {
+      const applied = await this.templateRepo.updateTemplateCategory(
+        connection,
+        template.id,
+        event.newCategory,
+        eventAt,
+      );
+      if (!applied) {
+        skipped.push('CATEGORY');
+      } else if (event.newCategory !== template.category) {
+        await this.templateRepo.insertChangeHistory(connection, {
+          templateId: template.id,
+          rawEventId: row.id,
+          changeType: 'CATEGORY',
+          previousValue: template.category ?? event.previousCategory,
+          newValue: event.newCategory,
+          reason: event.rejectionReason,
+          eventAt,
+        });
+      }
+    }
+
+    if (event.qualityScore) {
+      const applied = await this.templateRepo.updateTemplateQuality(
+        connection,
+        template.id,
+        event.qualityScore,
+        eventAt,
+      );
+      if (!applied) {
+        skipped.push('QUALITY');
+      } else if (event.qualityScore !== template.quality_score) {
+        await this.templateRepo.insertChangeHistory(connection, {
+          templateId: template.id,
+          rawEventId: row.id,
+          changeType: 'QUALITY',
+          previousValue: template.quality_score,
+          newValue: event.qualityScore,
+          reason: null,
+          eventAt,
+        });
+      }
     }
 
-    await this.templateRepo.updateTemplateStatus(
-      connection,
-      template.id,
-      event.templateStatus,
-      event.rejectionReason,
-      event.correctCategory,
-    );
-    await this.templateRepo.updateLatestTemplateVersion(
-      connection,
-      template.id,
-      event.templateStatus,
-      event.rejectionReason,
-      event.eventAt,
-    );
     this.logVerbose('worker_template_applied', {
       rawId: row.id,
       appId: row.app_id,
       templateId: template.id,
       templateName: template.name,
       templateStatus: event.templateStatus,
+      previousStatus: template.status,
+      newCategory: event.newCategory,
+      previousCategory: template.category,
+      qualityScore: event.qualityScore,
+      previousQualityScore: template.quality_score,
+      staleSkipped: skipped,
       integrationId: integration.id,
       companyId: integration.company_id,
     });
     await this.rawRepo.markProcessed(connection, row.id, null);
+    return false;
   }
 
   private async processUserEvent(
     connection: PoolConnection,
     row: RawEventRow,
     normalizedEvent: NormalizedUserEvent | null,
-  ): Promise<void> {
+  ): Promise<boolean> {
     const integration = await this.integrationRepo.findActiveByAppId(row.app_id, connection);
     if (!integration) {
       this.logger.warn('worker_user_integration_not_found', {
@@ -335,7 +876,7 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
         appId: row.app_id,
       });
       await this.rawRepo.markProcessed(connection, row.id, 'Integration not found for appId');
-      return;
+      return false;
     }
 
     const event: NormalizedUserEvent = {
@@ -352,7 +893,7 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
         appId: row.app_id,
       });
       await this.rawRepo.markProcessed(connection, row.id, 'User not found for phone');
-      return;
+      return false;
     }
     if (!event.consentEvent) {
       this.logger.warn('worker_user_unrecognized_payload', {
@@ -362,7 +903,7 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
         eventStatus: row.event_status,
       });
       await this.rawRepo.markProcessed(connection, row.id, 'Unrecognized payload');
-      return;
+      return false;
     }
 
     this.logVerbose('worker_user_normalized', {
@@ -383,23 +924,48 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
         phone: StructuredLoggerService.maskPhone(event.phone),
       });
       await this.rawRepo.markProcessed(connection, row.id, 'Blocked event ignored by configuration');
-      return;
+      return false;
     }
 
-    const userId = await this.consentRepo.findUserIdByPhone(
+    const defaultCountry = integration.default_country?.toUpperCase() ?? this.appConfigService.phoneDefaultCountry;
+    const lookup = buildPhoneLookup(event.phone, defaultCountry);
+    const companyScope = this.appConfigService.userCompanyColumn
+      ? { column: this.appConfigService.userCompanyColumn, companyId: integration.company_id }
+      : null;
+    let userId = await this.consentRepo.findUserIdByPhone(
       connection,
-      event.phone,
+      lookup,
       this.appConfigService.userPhoneColumn,
+      this.appConfigService.userPhoneNormalizedColumn,
+      companyScope,
     );
+    if (!userId && lookup.canonical && this.notFoundGraceRemainingMs(row) <= 0) {
+      userId = await this.scanUserIdByPhoneDigits(row, lookup, companyScope);
+    }
     if (!userId) {
-      await this.rawRepo.markProcessed(connection, row.id, 'User not found for phone');
+      const missReason = lookup.canonical ? 'NOT_FOUND' : 'UNPARSEABLE';
+      if (missReason === 'NOT_FOUND') {
+        if ((await this.parkOrFinalize(connection, row, 'User not found for phone')) === 'PARKED') {
+          return true;
+        }
+      } else {
+        await this.rawRepo.markProcessed(connection, row.id, 'User not found for phone');
+      }
+      await this.consentRepo.recordPhoneLookupMiss(connection, integration.company_id, lookup, defaultCountry, missReason);
       this.logger.warn('consent_user_not_found', {
         companyId: integration.company_id,
         phone: StructuredLoggerService.maskPhone(event.phone),
+        canonicalPhone: StructuredLoggerService.maskPhone(lookup.canonical),
+        defaultCountry,
+        candidates: lookup.candidates.length,
+        nationalCandidates: companyScope ? lookup.nationalCandidates.length : 0,
+        missReason,
       });
-      return;
+      return false;
     }
 
+    this.logParkedMatch(row);
+
     const eventAt = event.eventAt ?? new Date();
     await this.consentRepo.insertConsentEvent(
       connection,
@@ -425,38 +991,212 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
       eventAt: eventAt.toISOString(),
     });
     await this.rawRepo.markProcessed(connection, row.id, null);
+    return false;
   }
 
-  private parseMessageStatus(value: string | null): MessageStatus | null {
-    if (!value) {
-      return null;
+  private async processInboundEvent(
+    connection: PoolConnection,
+    row: RawEventRow,
+    event: NormalizedInboundEvent | null,
+  ): Promise<void> {
+    const integration = await this.integrationRepo.findActiveByAppId(row.app_id, connection);
+    if (!integration) {
+      this.logger.warn('worker_inbound_integration_not_found', {
+        rawId: row.id,
+        appId: row.app_id,
+      });
+      await this.rawRepo.markProcessed(connection, row.id, 'Integration not found for appId');
+      return;
     }
-    const normalized = value.toLowerCase();
-    if (normalized === 'accepted') {
-      return 'accepted';
+
+    if (!event || !event.senderPhone) {
+      this.logger.warn('worker_inbound_unrecognized_payload', {
+        rawId: row.id,
+        appId: row.app_id,
+        messageId: event?.messageId ?? row.message_id,
+        eventStatus: row.event_status,
+      });
+      await this.rawRepo.markProcessed(connection, row.id, 'Unrecognized payload');
+      return;
     }
-    if (normalized === 'sent') {
-      return 'sent';
+
+    const messageAt = event.eventAt ?? row.received_at;
+    const result = await this.inboundRepo.insertInboundMessage(
+      connection,
+      row.id,
+      integration.company_id,
+      integration.id,
+      event,
+      event.senderPhone,
+      messageAt,
+    );
+    this.logVerbose('worker_inbound_applied', {
+      rawId: row.id,
+      appId: row.app_id,
+      companyId: integration.company_id,
+      messageId: event.messageId,
+      senderPhone: StructuredLoggerService.maskPhone(event.senderPhone),
+      messageType: event.messageType,
+      contextMessageId: event.contextMessageId,
+      inserted: result.inserted,
+      eventAt: messageAt.toISOString(),
+    });
+    await this.rawRepo.markProcessed(connection, row.id, null);
+  }
+
+  private async processBillingEvent(
+    connection: PoolConnection,
+    row: RawEventRow,
+    event: NormalizedBillingEvent | null,
+  ): Promise<boolean> {
+    const integration = await this.integrationRepo.findActiveByAppId(row.app_id, connection);
+    if (!integration) {
+      this.logger.warn('worker_billing_integration_not_found', {
+        rawId: row.id,
+        appId: row.app_id,
+      });
+      await this.rawRepo.markProcessed(connection, row.id, 'Integration not found for appId');
+      return false;
     }
-    if (normalized === 'delivered') {
-      return 'delivered';
+
+    if (!event || !event.conversationId) {
+      this.logger.warn('worker_billing_unrecognized_payload', {
+        rawId: row.id,
+        appId: row.app_id,
+        messageId: event?.messageId ?? row.message_id,
+        eventStatus: row.event_status,
+      });
+      await this.rawRepo.markProcessed(connection, row.id, 'Unrecognized payload');
+      return false;
     }
-    if (normalized === 'read') {
-      return 'read';
+
+    const hasMessageRef = Boolean(event.messageId || event.whatsappMessageId);
+    const recipientId = hasMessageRef
+      ? await this.recipientRepo.findRecipientId(connection, event.messageId, event.whatsappMessageId)
+      : null;
+    let finalized = false;
+    if (recipientId) {
+      this.logParkedMatch(row);
+    } else if (hasMessageRef) {
+      this.logVerbose('worker_billing_recipient_not_found', {
+        rawId: row.id,
+        appId: row.app_id,
+        conversationId: event.conversationId,
+        messageId: event.messageId,
+        whatsappMessageId: event.whatsappMessageId,
+      });
+      if ((await this.parkOrFinalize(connection, row, 'Recipient not found')) === 'PARKED') {
+        return true;
+      }
+      finalized = true;
     }
-    if (normalized === 'failed') {
-      return 'failed';
+
+    const billedAt = event.eventAt ?? row.received_at;
+    await this.billingRepo.upsertConversationBilling(
+      connection,
+      integration.id,
+      integration.company_id,
+      recipientId,
+      event,
+      event.conversationId,
+      billedAt,
+    );
+    this.logVerbose('worker_billing_applied', {
+      rawId: row.id,
+      appId: row.app_id,
+      companyId: integration.company_id,
+      conversationId: event.conversationId,
+      recipientId,
+      category: event.category,
+      pricingModel: event.pricingModel,
+      billable: event.billable,
+      eventAt: billedAt.toISOString(),
+    });
+    if (!finalized) {
+      await this.rawRepo.markProcessed(connection, row.id, null);
     }
-    return null;
+    return false;
   }
 
-  private parseTemplateStatus(value: string | null): 'APPROVED' | 'REJECTED' | 'PENDING' | 'SUBMITTED' | null {
+  private async processAccountEvent(
+    connection: PoolConnection,
+    row: RawEventRow,
+    event: NormalizedAccountEvent | null,
+  ): Promise<void> {
+    const integration = await this.integrationRepo.findActiveOrAutoDeactivatedByAppId(row.app_id, connection);
+    if (!integration) {
+      this.logger.warn('worker_account_integration_not_found', {
+        rawId: row.id,
+        appId: row.app_id,
+      });
+      await this.rawRepo.markProcessed(connection, row.id, 'Integration not found for appId');
+      return;
+    }
+
+    if (!event || (!event.qualityRating && !event.messagingTier && !event.numberStatus)) {
+      this.logger.warn('worker_account_unrecognized_payload', {
+        rawId: row.id,
+        appId: row.app_id,
+        eventStatus: row.event_status,
+      });
+      await this.rawRepo.markProcessed(connection, row.id, 'Unrecognized payload');
+      return;
+    }
+
+    const eventAt = event.eventAt ?? row.received_at;
+    const isCurrent = await this.integrationRepo.upsertHealth(connection, integration, event, eventAt);
+
+    const deactivate =
+      isCurrent &&
+      event.numberStatus === 'BANNED' &&
+      integration.is_active === 1 &&
+      this.appConfigService.deactivateIntegrationOnBan;
+    if (deactivate) {
+      await this.integrationRepo.deactivate(connection, integration.id);
+    }
+    const reactivate = isCurrent && event.numberStatus === 'CONNECTED' && integration.is_active === 0;
+    if (reactivate) {
+      await this.integrationRepo.reactivate(connection, integration.id);
+    }
+
+    const logMeta = {
+      rawId: row.id,
+      appId: row.app_id,
+      integrationId: integration.id,
+      companyId: integration.company_id,
+      accountEvent: event.accountEvent,
+      qualityRating: event.qualityRating,
+      messagingTier: event.messagingTier,
+      numberStatus: event.numberStatus,
+      reason: event.reason,
+      deactivated: deactivate,
+      reactivated: reactivate,
+      stale: !isCurrent,
+      eventAt: eventAt.toISOString(),
+    };
+    if (event.numberStatus && event.numberStatus !== 'CONNECTED') {
+      this.logger.warn('worker_account_health_degraded', logMeta);
+    } else {
+      this.logVerbose('worker_account_applied', logMeta);
+    }
+    await this.rawRepo.markProcessed(connection, row.id, null);
+  }
+
+  private parseMessageStatus(value: string | null): MessageStatus | null {
+    if (!value) {
+      return null;
+    }
+    const normalized = value.toLowerCase() as MessageStatus;
+    return MESSAGE_STATUSES.includes(normalized) ? normalized : null;
+  }
+
+  private parseTemplateStatus(value: string | null): TemplateStatus | null {
     if (!value) {
       return null;
     }
     const normalized = value.toUpperCase();
-    if (['APPROVED', 'REJECTED', 'PENDING', 'SUBMITTED'].includes(normalized)) {
-      return normalized as 'APPROVED' | 'REJECTED' | 'PENDING' | 'SUBMITTED';
+    if (['APPROVED', 'REJECTED', 'PENDING', 'SUBMITTED', 'PAUSED', 'DISABLED'].includes(normalized)) {
+      return normalized as TemplateStatus;
     }
     return null;
   }
@@ -472,6 +1212,33 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
     return null;
   }
 
+  private async scanUserIdByPhoneDigits(
+    row: RawEventRow,
+    lookup: PhoneLookup,
+    companyScope: UserCompanyScope | null,
+  ): Promise<number | null> {
+    const timeoutMs = this.appConfigService.userPhoneScanTimeoutMs;
+    if (this.appConfigService.userPhoneNormalizedColumn || timeoutMs === 0) {
+      return null;
+    }
+    try {
+      return await this.consentRepo.scanUserIdByPhoneDigits(
+        lookup,
+        this.appConfigService.userPhoneColumn,
+        companyScope,
+        timeoutMs,
+      );
+    } catch (error) {
+      this.logger.warn('consent_phone_scan_failed', {
+        rawId: row.id,
+        appId: row.app_id,
+        timeoutMs,
+        reason: error instanceof Error ? error.message : 'unknown_error',
+      });
+      return null;
+    }
+  }
+
   private normalizeConsentEvent(event: 'OPT_IN' | 'OPT_OUT' | 'BLOCKED'): 'OPT_IN' | 'OPT_OUT' | null {
     if (event === 'OPT_IN') {
       return 'OPT_IN';
@@ -512,6 +1279,8 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
         templateName: event.templateName,
         templateProviderId: event.templateProviderId,
         templateStatus: event.templateStatus,
+        newCategory: event.newCategory,
+        qualityScore: event.qualityScore,
         language: event.language,
         eventAt: event.eventAt?.toISOString() ?? null,
       };
@@ -527,6 +1296,42 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
       };
     }
 
+    if (event.kind === 'INBOUND') {
+      return {
+        kind: event.kind,
+        providerEventId: event.providerEventId,
+        messageId: event.messageId,
+        senderPhone: StructuredLoggerService.maskPhone(event.senderPhone),
+        messageType: event.messageType,
+        contextMessageId: event.contextMessageId,
+        eventAt: event.eventAt?.toISOString() ?? null,
+      };
+    }
+
+    if (event.kind === 'BILLING') {
+      return {
+        kind: event.kind,
+        providerEventId: event.providerEventId,
+        conversationId: event.conversationId,
+        messageId: event.messageId,
+        category: event.category,
+        billable: event.billable,
+        eventAt: event.eventAt?.toISOString() ?? null,
+      };
+    }
+
+    if (event.kind === 'ACCOUNT') {
+      return {
+        kind: event.kind,
+        providerEventId: event.providerEventId,
+        accountEvent: event.accountEvent,
+        qualityRating: event.qualityRating,
+        messagingTier: event.messagingTier,
+        numberStatus: event.numberStatus,
+        eventAt: event.eventAt?.toISOString() ?? null,
+      };
+    }
+
     return {
       kind: event.kind,
       providerEventId: event.providerEventId,
@@ -534,6 +1339,17 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
     };
   }
 
+  private summarizeStack(error: unknown): string | null {
+    if (!(error instanceof Error) || !error.stack) {
+      return null;
+    }
+    return error.stack.split('\n').slice(0, STACK_SUMMARY_LINES).join('\n');
+  }
+
+  private retryPolicyFor(kind: EventKind): RetryPolicy {
+    return this.appConfigService.worker.retryByKind[kind] ?? this.appConfigService.worker.retry;
+  }
+
   private countKinds(rows: RawEventRow[]): Record<string, number> {
     const counts: Record<string, number> = {};
     for (const row of rows) {
@@ -541,4 +1357,16 @@ export class WorkerService implements OnModuleInit, OnModuleDestroy {
     }
     return counts;
   }
+
+  private countMessageStatuses(rows: RawEventRow[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const row of rows) {
+      if (row.event_kind !== 'MESSAGE') {
+        continue;
+      }
+      const status = this.parseMessageStatus(row.event_status) ?? 'unrecognized';
+      counts[status] = (counts[status] ?? 0) + 1;
+    }
+    return counts;
+  }
 }